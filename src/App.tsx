@@ -2,8 +2,20 @@ import { GameCanvas } from './components/GameCanvas';
 import { Controls } from './components/Controls';
 import { Scoreboard } from './components/Scoreboard';
 import { SettingsPanel } from './components/SettingsPanel';
+import { ReplayControls } from './components/ReplayControls';
+import { MatchSummary } from './components/MatchSummary';
+import { PlayerSetup } from './components/PlayerSetup';
+import { StrategyExplorer } from './components/StrategyExplorer';
+import { AiTurns } from './components/AiTurns';
+import { BoardSetup } from './components/BoardSetup';
+import { WhatIfBranches } from './components/WhatIfBranches';
+import { InputControls } from './components/InputControls';
+import { StorageNotice } from './components/StorageNotice';
+import { useGameStore } from './store';
 
 function App() {
+  const isReplaying = useGameStore((state) => state.replay !== null);
+
   return (
     <div
       style={{
@@ -23,6 +35,7 @@ function App() {
       >
         Wagiri Pin Throw Game Simulator
       </h1>
+      <StorageNotice />
 
       <div
         style={{
@@ -32,8 +45,12 @@ function App() {
           flexWrap: 'wrap',
         }}
       >
-        {/* Left: Settings Panel */}
-        <SettingsPanel />
+        {/* Left: Players, Board and Settings */}
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          <PlayerSetup />
+          <BoardSetup />
+          <SettingsPanel />
+        </div>
 
         {/* Center: Game Canvas and Controls */}
         <div
@@ -45,12 +62,22 @@ function App() {
           }}
         >
           <GameCanvas />
-          <Controls />
+          {!isReplaying && <MatchSummary />}
+          <AiTurns />
+          {!isReplaying && <Controls />}
+          <ReplayControls />
         </div>
 
-        {/* Right: Scoreboard */}
-        <Scoreboard />
+        {/* Right: Scoreboard, Strategy Explorer and What-if branches */}
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          <Scoreboard />
+          <StrategyExplorer />
+          <WhatIfBranches />
+        </div>
       </div>
+
+      {/* Keyboard and gamepad play, and their help overlay */}
+      <InputControls />
     </div>
   );
 }
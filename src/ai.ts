@@ -0,0 +1,179 @@
+import type { AiDifficulty, GameConfig, MatchResult, Player } from './types';
+import { DEFAULT_CONFIG } from './types';
+import { Mulberry32 } from './utils/random';
+import type { GameStore } from './store';
+import { createGameStore, generatePinId } from './store';
+import { findPlayer } from './players';
+import { MAX_SIMULATION_STEPS } from './engine';
+import { hasRingErrors } from './zones';
+import {
+  ANGLE_RANGE,
+  POWER_RANGE,
+  PITCH_RANGE,
+  getBestCell,
+  runExplorerSweep,
+} from './explorer';
+import type { ExplorerRequest, ExplorerResult } from './explorer';
+import { createRecording } from './replay';
+import type { MatchRecording } from './replay';
+
+// Search effort and aim noise for a difficulty tier
+export interface AiLevel {
+  label: string;
+  angleSteps: number;
+  powerSteps: number;
+  pitchSteps: number;          // 1 = always throws at the default pitch
+  trialsPerCell: number;
+  angleNoise: number;          // Max aim error in degrees
+  powerNoise: number;
+  pitchNoise: number;
+}
+
+export const AI_LEVELS: Record<AiDifficulty, AiLevel> = {
+  easy: {
+    label: 'Easy',
+    angleSteps: 7,
+    powerSteps: 5,
+    pitchSteps: 1,
+    trialsPerCell: 4,
+    angleNoise: 10,
+    powerNoise: 0.15,
+    pitchNoise: 8,
+  },
+  medium: {
+    label: 'Medium',
+    angleSteps: 11,
+    powerSteps: 8,
+    pitchSteps: 1,
+    trialsPerCell: 8,
+    angleNoise: 4,
+    powerNoise: 0.06,
+    pitchNoise: 3,
+  },
+  hard: {
+    label: 'Hard',
+    angleSteps: 17,
+    powerSteps: 12,
+    pitchSteps: 3,
+    trialsPerCell: 12,
+    angleNoise: 1,
+    powerNoise: 0.02,
+    pitchNoise: 1,
+  },
+};
+
+export interface AiAim {
+  throwAngle: number;
+  throwPower: number;
+  throwPitch: number;
+}
+
+// The parts of the game an AI looks at when choosing a throw
+export type AiView = Pick<
+  GameStore,
+  'config' | 'pins' | 'players' | 'currentPlayerId' | 'rng' | 'throwHistory'
+>;
+
+// Keeps the aim noise off the game RNG so AI turns don't shift its sequence
+const AI_NOISE_SALT = 0x5f3759df;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+// Simulated-outcome search for the current player's next throw
+export function createAiSearchRequest(view: AiView, difficulty: AiDifficulty): ExplorerRequest {
+  const level = AI_LEVELS[difficulty];
+  const config: GameConfig =
+    level.pitchSteps <= 1
+      ? { ...view.config, throwPitch: DEFAULT_CONFIG.throwPitch }
+      : view.config;
+  return {
+    config,
+    pins: view.pins,
+    players: view.players,
+    playerId: view.currentPlayerId,
+    pinId: generatePinId(view.config.seed, view.throwHistory.length),
+    seed: view.rng.getState(),
+    angleSteps: level.angleSteps,
+    powerSteps: level.powerSteps,
+    pitchSteps: level.pitchSteps,
+    trialsPerCell: level.trialsPerCell,
+  };
+}
+
+// Take the best aim from a search and add the tier's aim error
+export function pickAiAim(
+  result: ExplorerResult,
+  difficulty: AiDifficulty,
+  rngState: number
+): AiAim {
+  const level = AI_LEVELS[difficulty];
+  const best = getBestCell(result);
+  if (!best) throw new Error('AI search returned no candidate throws');
+
+  const noise = new Mulberry32((rngState ^ AI_NOISE_SALT) >>> 0);
+  const angle = best.angle + noise.range(-level.angleNoise, level.angleNoise);
+  const power = best.power + noise.range(-level.powerNoise, level.powerNoise);
+  const pitch = best.pitch + noise.range(-level.pitchNoise, level.pitchNoise);
+
+  return {
+    throwAngle: Math.round(clamp(angle, ANGLE_RANGE.min, ANGLE_RANGE.max)),
+    throwPower: Math.round(clamp(power, POWER_RANGE.min, POWER_RANGE.max) * 100) / 100,
+    throwPitch: Math.round(clamp(pitch, PITCH_RANGE.min, PITCH_RANGE.max)),
+  };
+}
+
+// Choose a throw synchronously (headless matches; the UI searches in a worker)
+export function chooseAiThrow(view: AiView, difficulty: AiDifficulty): AiAim {
+  const result = runExplorerSweep(createAiSearchRequest(view, difficulty));
+  return pickAiAim(result, difficulty, view.rng.getState());
+}
+
+export interface AiMatchOptions {
+  maxThrows?: number;          // Safety cap, needed for endless matches
+}
+
+export interface AiMatchSummary {
+  players: Player[];
+  matchResult: MatchResult | null; // null if maxThrows was reached first
+  recording: MatchRecording;
+}
+
+// Play a whole match between AI players without any UI, e.g. for balance
+// testing. Every player must have an AI difficulty set.
+export function runAiMatch(
+  config: GameConfig,
+  players: Player[],
+  turnOrder: number[] = players.map((p) => p.id),
+  { maxThrows = 200 }: AiMatchOptions = {}
+): AiMatchSummary {
+  const human = players.find((p) => !p.ai);
+  if (human) throw new Error(`${human.name} is not an AI player`);
+  if (hasRingErrors(config.rings)) throw new Error('Ring settings have errors');
+
+  const store = createGameStore();
+  store.getState().updateConfig(config);
+  store.setState({ players, turnOrder });
+  store.getState().rematch();
+
+  for (let i = 0; i < maxThrows && store.getState().phase !== 'matchOver'; i++) {
+    store.getState().nextTurn();
+    const state = store.getState();
+    const difficulty = findPlayer(state.players, state.currentPlayerId)?.ai ?? 'medium';
+
+    state.updateConfig(chooseAiThrow(state, difficulty));
+    store.getState().throwPin();
+    while (store.getState().simulationStep(MAX_SIMULATION_STEPS)) {
+      // keep stepping
+    }
+    store.getState().resolveThrow();
+  }
+
+  const state = store.getState();
+  return {
+    players: state.players,
+    matchResult: state.matchResult,
+    recording: createRecording(state),
+  };
+}
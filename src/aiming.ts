@@ -0,0 +1,42 @@
+import type { Point } from './types';
+
+// Slingshot aiming: grab the pin at the start position and pull back. The
+// pin flies away from the pull, harder the further it is pulled.
+export const GRAB_RADIUS = 40;           // How close to the start a drag must begin
+export const FULL_POWER_PULL = 150;      // Pull length for full power
+export const MIN_PULL = 10;              // Shorter pulls are cancelled on release
+export const PITCH_PER_PIXEL = 0.3;      // Degrees of pitch per pixel moved
+
+// Same limits as the sliders
+export const MAX_ANGLE = 60;
+export const MIN_POWER = 0.1;
+export const MAX_PITCH = 45;
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+export function getPullLength(start: Point, pointer: Point): number {
+  return Math.hypot(pointer.x - start.x, pointer.y - start.y);
+}
+
+// Angle and power for a pull from start to pointer. Angles use the same
+// convention as the sliders: 0° straight up, positive to the right.
+export function getDragAim(
+  start: Point,
+  pointer: Point
+): { throwAngle: number; throwPower: number } {
+  const dx = start.x - pointer.x;
+  const dy = start.y - pointer.y;
+  const angle = (Math.atan2(dx, -dy) * 180) / Math.PI;
+  return {
+    throwAngle: Math.round(clamp(angle, -MAX_ANGLE, MAX_ANGLE)),
+    throwPower:
+      Math.round(clamp(getPullLength(start, pointer) / FULL_POWER_PULL, MIN_POWER, 1) * 100) / 100,
+  };
+}
+
+// Pitch while the pitch gesture is held: moving up raises it
+export function getDragPitch(basePitch: number, fromY: number, pointerY: number): number {
+  return Math.round(clamp(basePitch + (fromY - pointerY) * PITCH_PER_PIXEL, 0, MAX_PITCH));
+}
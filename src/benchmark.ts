@@ -0,0 +1,80 @@
+import type { BroadPhase, GameConfig, Pin } from './types';
+import { Mulberry32 } from './utils/random';
+import { MAX_PINS_ON_BOARD, SimulationEngine } from './engine';
+
+// Step times of the collision broad-phase against the brute-force pair loop
+export interface BenchmarkRow {
+  pinCount: number;
+  bruteForceMs: number;        // Average per step
+  gridMs: number;
+  speedup: number;
+  identical: boolean;          // Both runs ended with the same pins
+}
+
+export interface BenchmarkOptions {
+  pinCounts?: number[];
+  steps?: number;
+  seed?: number;
+}
+
+// Pins scattered over the board, all sliding in random directions
+export function createStressBoard(config: GameConfig, pinCount: number, seed: number): Pin[] {
+  const rng = new Mulberry32(seed);
+  const margin = config.pinRadius;
+  return Array.from({ length: pinCount }, (_, i) => {
+    const angle = rng.range(0, Math.PI * 2);
+    const pinSpeed = rng.range(1, 6);
+    return {
+      id: `stress_${i}`,
+      playerId: (i % 2) + 1,
+      x: rng.range(margin, config.canvasSize - margin),
+      y: rng.range(margin, config.canvasSize - margin),
+      z: 0,
+      vx: Math.cos(angle) * pinSpeed,
+      vy: Math.sin(angle) * pinSpeed,
+      vz: 0,
+      state: 'standing',
+      isMoving: true,
+      mass: 1,
+    };
+  });
+}
+
+function timeSteps(
+  config: GameConfig,
+  pins: Pin[],
+  broadPhase: BroadPhase,
+  steps: number
+): { msPerStep: number; pins: Pin[] } {
+  const engine = new SimulationEngine(
+    { ...config, collisionModel: 'pairwise', broadPhase },
+    pins,
+    0
+  );
+  const start = performance.now();
+  for (let i = 0; i < steps && engine.step(); i++) {
+    // keep stepping
+  }
+  const elapsed = performance.now() - start;
+  return { msPerStep: elapsed / Math.max(1, engine.getStepCount()), pins: engine.getPins() };
+}
+
+// Run the same stress boards with and without the grid. Runs synchronously,
+// so keep the pin counts and steps modest when calling from the UI.
+export function runCollisionBenchmark(
+  config: GameConfig,
+  { pinCounts = [50, 100, MAX_PINS_ON_BOARD], steps = 60, seed = 1 }: BenchmarkOptions = {}
+): BenchmarkRow[] {
+  return pinCounts.map((pinCount) => {
+    const pins = createStressBoard(config, pinCount, seed);
+    const brute = timeSteps(config, pins, 'none', steps);
+    const grid = timeSteps(config, pins, 'grid', steps);
+    return {
+      pinCount,
+      bruteForceMs: brute.msPerStep,
+      gridMs: grid.msPerStep,
+      speedup: grid.msPerStep > 0 ? brute.msPerStep / grid.msPerStep : 0,
+      identical: JSON.stringify(brute.pins) === JSON.stringify(grid.pins),
+    };
+  });
+}
@@ -0,0 +1,198 @@
+import type { GameConfig, Obstacle, Point, Ring, SurfacePatch } from './types';
+import { DEFAULT_CONFIG } from './types';
+import { isNumber, isObstacle, isPoint, isRing, isSurfacePatch } from './validation';
+import { getThrowStartPosition } from './physics';
+import { isInsidePolygon } from './utils/geometry';
+
+// Everything about the play area, without the physics or match rules
+export interface BoardDefinition {
+  name: string;
+  rings: Ring[];
+  outsideScore: number;
+  surfaces: SurfacePatch[];
+  boundary: Point[] | null;
+  obstacles: Obstacle[];
+}
+
+// Corners of a regular polygon, the first one straight up from the center
+export function regularPolygon(
+  cx: number,
+  cy: number,
+  radius: number,
+  sides: number
+): Point[] {
+  return Array.from({ length: sides }, (_, i) => {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / sides;
+    return {
+      x: Math.round((cx + Math.cos(angle) * radius) * 100) / 100,
+      y: Math.round((cy + Math.sin(angle) * radius) * 100) / 100,
+    };
+  });
+}
+
+const CLASSIC: BoardDefinition = {
+  name: 'Classic',
+  rings: DEFAULT_CONFIG.rings,
+  outsideScore: DEFAULT_CONFIG.outsideScore,
+  surfaces: [],
+  boundary: null,
+  obstacles: [],
+};
+
+// Built-in boards, laid out for the default 500px canvas
+export const BOARD_PRESETS: BoardDefinition[] = [
+  CLASSIC,
+  {
+    ...CLASSIC,
+    name: 'Square arena',
+    boundary: [
+      { x: 20, y: 20 },
+      { x: 480, y: 20 },
+      { x: 480, y: 490 },
+      { x: 20, y: 490 },
+    ],
+  },
+  {
+    ...CLASSIC,
+    name: 'Four posts',
+    obstacles: [
+      { type: 'post', x: 175, y: 175, radius: 8 },
+      { type: 'post', x: 325, y: 175, radius: 8 },
+      { type: 'post', x: 175, y: 325, radius: 8 },
+      { type: 'post', x: 325, y: 325, radius: 8 },
+    ],
+  },
+  {
+    ...CLASSIC,
+    name: 'Wedges',
+    rings: [
+      ...CLASSIC.rings,
+      {
+        innerRadius: 50,
+        outerRadius: 150,
+        points: 5,
+        shape: {
+          type: 'sector',
+          x: 250,
+          y: 250,
+          innerRadius: 50,
+          outerRadius: 150,
+          startAngle: -20,
+          endAngle: 20,
+        },
+        standBonus: 0,
+        priority: 1,
+      },
+      {
+        innerRadius: 0,
+        outerRadius: 25,
+        points: 4,
+        shape: { type: 'circle', x: 330, y: 330, radius: 25 },
+        priority: 1,
+      },
+    ],
+  },
+  {
+    ...CLASSIC,
+    name: 'Bumper hexagon',
+    boundary: regularPolygon(250, 265, 230, 6),
+    obstacles: [
+      { type: 'bumper', x: 150, y: 250, radius: 14, bounce: 1.3 },
+      { type: 'bumper', x: 350, y: 250, radius: 14, bounce: 1.3 },
+      { type: 'wall', x1: 200, y1: 90, x2: 300, y2: 90, thickness: 8 },
+    ],
+  },
+];
+
+export function getBoardDefinition(config: GameConfig, name: string): BoardDefinition {
+  return {
+    name,
+    rings: config.rings.map((r) => ({ ...r })),
+    outsideScore: config.outsideScore,
+    surfaces: config.surfaces ?? [],
+    boundary: config.boundary ?? null,
+    obstacles: config.obstacles ?? [],
+  };
+}
+
+// Config changes that put a board in place
+export function applyBoardDefinition(board: BoardDefinition): Partial<GameConfig> {
+  return {
+    rings: board.rings.map((r) => ({ ...r })),
+    ringCount: board.rings.length,
+    outsideScore: board.outsideScore,
+    surfaces: board.surfaces,
+    boundary: board.boundary,
+    obstacles: board.obstacles,
+  };
+}
+
+// Board file format
+export const BOARD_FILE_FORMAT = 'wagiri-board';
+export const BOARD_FILE_VERSION = 1;
+
+interface BoardFile {
+  format: typeof BOARD_FILE_FORMAT;
+  version: number;
+  board: BoardDefinition;
+}
+
+export function serializeBoard(board: BoardDefinition): string {
+  const file: BoardFile = {
+    format: BOARD_FILE_FORMAT,
+    version: BOARD_FILE_VERSION,
+    board,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// Parse and validate a board file. Throws on malformed input.
+export function parseBoardFile(json: string, canvasSize: number): BoardDefinition {
+  let data: Partial<BoardFile>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Board file is not valid JSON');
+  }
+
+  if (!data || data.format !== BOARD_FILE_FORMAT || !data.board) {
+    throw new Error('Not a board file');
+  }
+  if (!isNumber(data.version) || data.version > BOARD_FILE_VERSION) {
+    throw new Error(`Unsupported board file version: ${data.version}`);
+  }
+
+  const { board } = data;
+  const ringsValid =
+    Array.isArray(board.rings) && board.rings.length > 0 && board.rings.every(isRing);
+  if (!ringsValid) throw new Error('Board rings are malformed');
+  if (!Array.isArray(board.obstacles) || !board.obstacles.every(isObstacle)) {
+    throw new Error('Board obstacles are malformed');
+  }
+  const ringCount = board.rings.length;
+  if (
+    !Array.isArray(board.surfaces) ||
+    !board.surfaces.every((s) => isSurfacePatch(s, ringCount))
+  ) {
+    throw new Error('Board surfaces are malformed');
+  }
+
+  if (board.boundary !== null) {
+    if (!Array.isArray(board.boundary) || board.boundary.length < 3 || !board.boundary.every(isPoint)) {
+      throw new Error('Board boundary needs at least 3 points');
+    }
+    const start = getThrowStartPosition(canvasSize);
+    if (!isInsidePolygon(start.x, start.y, board.boundary)) {
+      throw new Error('Board boundary must contain the throw start');
+    }
+  }
+
+  return {
+    name: typeof board.name === 'string' ? board.name : 'Imported board',
+    rings: board.rings,
+    outsideScore: isNumber(board.outsideScore) ? board.outsideScore : 0,
+    surfaces: board.surfaces,
+    boundary: board.boundary,
+    obstacles: board.obstacles,
+  };
+}
@@ -0,0 +1,59 @@
+import type { Pin, Player, RecordedThrow, WhatIfBranch } from './types';
+import { replayMatch } from './replay';
+import type { MatchRecording } from './replay';
+
+// Board and scoring right after one line's version of the forked throw
+export interface LineOutcome {
+  pins: Pin[];
+  players: Player[];
+  deltas: Record<number, number>;
+  text: string;
+}
+
+export interface BranchComparison {
+  original: LineOutcome;
+  branch: LineOutcome;
+}
+
+// A branch only makes sense while the main line still has the throw it forked
+export function isBranchCurrent(branch: WhatIfBranch, throws: RecordedThrow[]): boolean {
+  return throws[branch.throwIndex]?.rngState === branch.rngState;
+}
+
+// Replay the match up to and including the forked throw, played with the
+// given aim
+function playLine(
+  recording: MatchRecording,
+  throwIndex: number,
+  aim: Pick<RecordedThrow, 'throwAngle' | 'throwPower' | 'throwPitch'>,
+  eventsBefore: number
+): LineOutcome {
+  const throws = recording.throws.slice(0, throwIndex + 1);
+  const { throwAngle, throwPower, throwPitch } = aim;
+  throws[throwIndex] = { ...throws[throwIndex], throwAngle, throwPower, throwPitch };
+  const outcome = replayMatch({ ...recording, throws });
+
+  // A throw that hits nothing and lands nowhere may not log an event
+  const event = outcome.eventLog.length > eventsBefore ? outcome.eventLog[eventsBefore] : null;
+  return {
+    pins: outcome.pins,
+    players: outcome.players,
+    deltas: event?.deltas ?? {},
+    text: event?.text ?? 'No score change',
+  };
+}
+
+// Play the forked throw both ways from the same position. Both lines are
+// re-simulated from the recording, so the comparison is deterministic.
+export function compareBranch(recording: MatchRecording, branch: WhatIfBranch): BranchComparison {
+  if (!isBranchCurrent(branch, recording.throws)) {
+    throw new Error(`${branch.name} no longer matches throw ${branch.throwIndex + 1}`);
+  }
+
+  const before = replayMatch({ ...recording, throws: recording.throws.slice(0, branch.throwIndex) });
+  const eventsBefore = before.eventLog.length;
+  return {
+    original: playLine(recording, branch.throwIndex, recording.throws[branch.throwIndex], eventsBefore),
+    branch: playLine(recording, branch.throwIndex, branch, eventsBefore),
+  };
+}
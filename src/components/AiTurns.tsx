@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { getControlState, useGameStore } from '../store';
+import { findPlayer } from '../players';
+import { AI_LEVELS, chooseAiThrow, createAiSearchRequest, pickAiAim } from '../ai';
+import type { AiAim } from '../ai';
+import type { ExplorerWorkerMessage } from '../workers/explorer.worker';
+
+// Pause so people can see the AI's aim before it throws / ends its turn
+const AI_THROW_DELAY_MS = 600;
+const AI_TURN_END_DELAY_MS = 1200;
+
+// Plays turns for AI players and shows what they are doing
+export function AiTurns() {
+  const phase = useGameStore((state) => state.phase);
+  const isReplaying = useGameStore((state) => state.replay !== null);
+  const currentPlayer = useGameStore((state) =>
+    findPlayer(state.players, state.currentPlayerId)
+  );
+  const throwBlocker = useGameStore((state) => getControlState(state).throwBlocker);
+  const throwCount = useGameStore((state) => state.throwHistory.length);
+  const difficulty = currentPlayer?.ai;
+  const playerId = currentPlayer?.id;
+
+  // Why the search for the current throw failed, if it did
+  const [failure, setFailure] = useState<{ throwCount: number; message: string } | null>(null);
+
+  // Search for a throw in a worker, aim, then throw. Nothing is searched
+  // while the throw would be refused anyway.
+  useEffect(() => {
+    if (phase !== 'idle' || isReplaying || !difficulty || throwBlocker) return;
+
+    const state = useGameStore.getState();
+    const rngState = state.rng.getState();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const aimAndThrow = (aim: AiAim) => {
+      const latest = useGameStore.getState();
+      if (latest.phase !== 'idle' || latest.throwHistory.length !== throwCount) return;
+      latest.updateConfig(aim);
+      timer = setTimeout(() => {
+        const current = useGameStore.getState();
+        // The status line shows why if the throw became impossible meanwhile
+        if (!getControlState(current).throwBlocker) current.throwPin();
+      }, AI_THROW_DELAY_MS);
+    };
+
+    const worker = new Worker(new URL('../workers/explorer.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+
+    const choose = (search: () => AiAim) => {
+      worker.terminate();
+      try {
+        aimAndThrow(search());
+      } catch (err) {
+        setFailure({ throwCount, message: err instanceof Error ? err.message : String(err) });
+      }
+    };
+
+    // Without a working worker, search on the main thread (the page stalls
+    // for a moment, but the match goes on)
+    const searchHere = () => choose(() => chooseAiThrow(useGameStore.getState(), difficulty));
+
+    worker.onmessage = (event: MessageEvent<ExplorerWorkerMessage>) => {
+      const message = event.data;
+      if (message.type !== 'result') return;
+      choose(() => pickAiAim(message.result, difficulty, rngState));
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      searchHere();
+    };
+    worker.onmessageerror = searchHere;
+    worker.postMessage(createAiSearchRequest(state, difficulty));
+
+    return () => {
+      worker.terminate();
+      clearTimeout(timer);
+    };
+  }, [phase, isReplaying, difficulty, playerId, throwBlocker, throwCount]);
+
+  // Hand the turn on after an AI throw has been scored
+  useEffect(() => {
+    if (phase !== 'turnEnd' || isReplaying || !difficulty) return;
+    const timer = setTimeout(() => useGameStore.getState().nextTurn(), AI_TURN_END_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [phase, isReplaying, difficulty]);
+
+  if (!currentPlayer || !difficulty || isReplaying || phase === 'matchOver') return null;
+
+  const failed = failure?.throwCount === throwCount ? failure.message : null;
+  const status =
+    phase === 'idle'
+      ? throwBlocker
+        ? `can't throw: ${throwBlocker}`
+        : failed
+          ? `couldn't choose a throw: ${failed}`
+          : 'is thinking…'
+      : phase === 'turnEnd'
+        ? 'ends its turn…'
+        : 'threw';
+
+  return (
+    <div
+      style={{
+        padding: '6px 12px',
+        backgroundColor: '#2a2a4a',
+        borderRadius: '6px',
+        color: throwBlocker || failed ? '#f59e0b' : currentPlayer.color,
+        fontSize: '12px',
+        fontWeight: 'bold',
+      }}
+    >
+      🤖 {currentPlayer.name} ({AI_LEVELS[difficulty].label} AI) {status}
+    </div>
+  );
+}
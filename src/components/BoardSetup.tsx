@@ -0,0 +1,218 @@
+import { useRef, useState } from 'react';
+import { useGameStore } from '../store';
+import {
+  BOARD_PRESETS,
+  applyBoardDefinition,
+  getBoardDefinition,
+  parseBoardFile,
+  serializeBoard,
+} from '../board';
+import type { Obstacle } from '../types';
+
+// Number fields shown for each obstacle type
+const OBSTACLE_FIELDS: Record<Obstacle['type'], string[]> = {
+  post: ['x', 'y', 'radius'],
+  bumper: ['x', 'y', 'radius', 'bounce'],
+  wall: ['x1', 'y1', 'x2', 'y2', 'thickness'],
+};
+
+export function BoardSetup() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const config = useGameStore((state) => state.config);
+  const phase = useGameStore((state) => state.phase);
+  const updateConfig = useGameStore((state) => state.updateConfig);
+
+  const isIdle = phase === 'idle';
+  const obstacles = config.obstacles;
+
+  const smallButton = (enabled: boolean, color = '#4a4a6a'): React.CSSProperties => ({
+    padding: '4px 8px',
+    backgroundColor: enabled ? color : '#333',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '10px',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+  });
+
+  const inputStyle: React.CSSProperties = {
+    width: '40px',
+    padding: '2px 4px',
+    backgroundColor: '#1a1a2e',
+    border: '1px solid #4a4a6a',
+    borderRadius: '4px',
+    color: '#fff',
+    fontSize: '11px',
+  };
+
+  const updateObstacle = (index: number, field: string, value: string) => {
+    const num = parseFloat(value);
+    if (isNaN(num)) return;
+    updateConfig({
+      obstacles: obstacles.map((o, i) => (i === index ? { ...o, [field]: num } : o)),
+    });
+  };
+
+  // New obstacles go just above the center so they're easy to spot
+  const addObstacle = (type: Obstacle['type']) => {
+    const c = config.canvasSize / 2;
+    const obstacle: Obstacle =
+      type === 'post'
+        ? { type, x: c, y: c - 120, radius: 8 }
+        : type === 'bumper'
+          ? { type, x: c, y: c - 120, radius: 14, bounce: 1.3 }
+          : { type, x1: c - 50, y1: c - 120, x2: c + 50, y2: c - 120, thickness: 8 };
+    updateConfig({ obstacles: [...obstacles, obstacle] });
+  };
+
+  const handlePreset = (index: number) => {
+    const preset = BOARD_PRESETS[index];
+    if (!preset) return;
+    updateConfig(applyBoardDefinition(preset));
+    setMessage(null);
+  };
+
+  const boardJson = () => serializeBoard(getBoardDefinition(config, 'Custom board'));
+
+  const handleExport = () => {
+    const blob = new Blob([boardJson()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'wagiri-board.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(boardJson());
+      setMessage({ text: 'Board JSON copied', error: false });
+    } catch {
+      setMessage({ text: 'Clipboard is not available', error: true });
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const board = parseBoardFile(await file.text(), config.canvasSize);
+      updateConfig(applyBoardDefinition(board));
+      setMessage({ text: `Loaded ${board.name}`, error: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), error: true });
+    }
+  };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        padding: '16px',
+        backgroundColor: '#2a2a4a',
+        borderRadius: '8px',
+        minWidth: '240px',
+        maxWidth: '280px',
+        fontSize: '12px',
+      }}
+    >
+      <h3 style={{ margin: '0 0 4px 0', color: '#fff', fontSize: '14px' }}>Board</h3>
+
+      <select
+        value=""
+        onChange={(e) => handlePreset(Number(e.target.value))}
+        disabled={!isIdle}
+        style={{ ...inputStyle, width: '100%', padding: '4px' }}
+      >
+        <option value="" disabled>
+          Load a preset…
+        </option>
+        {BOARD_PRESETS.map((preset, i) => (
+          <option key={preset.name} value={i}>
+            {preset.name}
+          </option>
+        ))}
+      </select>
+
+      <div style={{ color: '#888', fontSize: '11px' }}>
+        Wall:{' '}
+        {config.boundary ? `${config.boundary.length}-sided polygon` : 'circle around the rings'}
+      </div>
+
+      {obstacles.map((obstacle, index) => (
+        <div key={index} style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', alignItems: 'center' }}>
+          <span style={{ color: '#ccc', width: '44px', textTransform: 'capitalize' }}>
+            {obstacle.type}
+          </span>
+          {OBSTACLE_FIELDS[obstacle.type].map((field) => (
+            <input
+              key={field}
+              type="number"
+              step={field === 'bounce' ? 0.1 : 1}
+              value={(obstacle as unknown as Record<string, number>)[field]}
+              onChange={(e) => updateObstacle(index, field, e.target.value)}
+              disabled={!isIdle}
+              title={field}
+              style={inputStyle}
+            />
+          ))}
+          <button
+            onClick={() => updateConfig({ obstacles: obstacles.filter((_, i) => i !== index) })}
+            disabled={!isIdle}
+            style={{ ...smallButton(isIdle, '#ef4444'), padding: '2px 6px' }}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <div style={{ display: 'flex', gap: '4px' }}>
+        {(['post', 'bumper', 'wall'] as const).map((type) => (
+          <button
+            key={type}
+            onClick={() => addObstacle(type)}
+            disabled={!isIdle}
+            style={{ ...smallButton(isIdle), flex: 1 }}
+          >
+            + {type}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <button onClick={handleExport} style={{ ...smallButton(true), flex: 1 }}>
+          Export
+        </button>
+        <button onClick={handleCopy} style={{ ...smallButton(true), flex: 1 }}>
+          Copy JSON
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={!isIdle}
+          style={{ ...smallButton(isIdle), flex: 1 }}
+        >
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          style={{ display: 'none' }}
+        />
+      </div>
+      {message && (
+        <div style={{ color: message.error ? '#ef4444' : '#22c55e', fontSize: '11px' }}>
+          {message.text}
+        </div>
+      )}
+    </div>
+  );
+}
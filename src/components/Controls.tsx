@@ -1,20 +1,57 @@
-import { useGameStore } from '../store';
+import { useEffect } from 'react';
+import { canRewind, getControlState, useGameStore } from '../store';
+import { findPlayer } from '../players';
+import { hasRingErrors } from '../zones';
 
 export function Controls() {
   const config = useGameStore((state) => state.config);
   const phase = useGameStore((state) => state.phase);
   const currentPlayerId = useGameStore((state) => state.currentPlayerId);
   const players = useGameStore((state) => state.players);
+  const replay = useGameStore((state) => state.replay);
 
   const setThrowParams = useGameStore((state) => state.setThrowParams);
   const updateConfig = useGameStore((state) => state.updateConfig);
   const throwPin = useGameStore((state) => state.throwPin);
   const nextTurn = useGameStore((state) => state.nextTurn);
   const reset = useGameStore((state) => state.reset);
+  const undo = useGameStore((state) => state.undo);
+  const redo = useGameStore((state) => state.redo);
+  const setShowInputHelp = useGameStore((state) => state.setShowInputHelp);
+  const history = useGameStore((state) => state.history);
+  const settled = useGameStore(canRewind);
 
-  const isIdle = phase === 'idle';
-  const isTurnEnd = phase === 'turnEnd';
-  const currentPlayer = players[currentPlayerId - 1];
+  const currentPlayer = findPlayer(players, currentPlayerId) ?? players[0];
+  const {
+    canAim: isIdle,
+    canThrow,
+    canNextTurn: isTurnEnd,
+  } = getControlState({ phase, replay, players, currentPlayerId, config });
+  const ringsInvalid = hasRingErrors(config.rings);
+
+  const canUndo = settled && history.past.length > 0;
+  const canRedo = settled && history.future.length > 0;
+
+  // Ctrl+Z undoes a throw, Ctrl+Shift+Z / Ctrl+Y redoes it. Text fields keep
+  // their own undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   const handleAngleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setThrowParams(Number(e.target.value), config.throwPower);
@@ -28,6 +65,13 @@ export function Controls() {
     updateConfig({ throwPitch: Number(e.target.value) });
   };
 
+  const handleSpinChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    updateConfig({ throwSpin: Number(e.target.value) });
+  };
+
+  const spinLabel =
+    config.throwSpin === 0 ? 'none' : config.throwSpin > 0 ? 'curves right' : 'curves left';
+
   return (
     <div
       style={{
@@ -105,21 +149,60 @@ export function Controls() {
         </div>
       </div>
 
+      {/* Spin Slider */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        <label style={{ color: '#aaa', fontSize: '12px' }}>
+          Spin: {(config.throwSpin * 100).toFixed(0)}% ({spinLabel})
+        </label>
+        <input
+          type="range"
+          min={-1}
+          max={1}
+          step={0.05}
+          value={config.throwSpin}
+          onChange={handleSpinChange}
+          onDoubleClick={() => updateConfig({ throwSpin: 0 })}
+          disabled={!isIdle}
+          title="Double-click to reset"
+          style={{ width: '100%' }}
+        />
+      </div>
+
+      <div style={{ color: '#888', fontSize: '11px', textAlign: 'center' }}>
+        Or drag back from the orange start spot and let go to throw (Shift or a second
+        finger sets pitch, Esc cancels), or play with the{' '}
+        <button
+          onClick={() => setShowInputHelp(true)}
+          style={{
+            padding: 0,
+            background: 'none',
+            border: 'none',
+            color: '#60a5fa',
+            fontSize: '11px',
+            textDecoration: 'underline',
+            cursor: 'pointer',
+          }}
+        >
+          keyboard or a gamepad
+        </button>
+      </div>
+
       {/* Action Buttons */}
       <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
         <button
           onClick={throwPin}
-          disabled={!isIdle}
+          disabled={!canThrow}
+          title={ringsInvalid ? 'The ring settings have errors' : undefined}
           style={{
             flex: 1,
             padding: '12px 16px',
             fontSize: '16px',
             fontWeight: 'bold',
-            backgroundColor: isIdle ? '#22c55e' : '#555',
+            backgroundColor: canThrow ? '#22c55e' : '#555',
             color: '#fff',
             border: 'none',
             borderRadius: '6px',
-            cursor: isIdle ? 'pointer' : 'not-allowed',
+            cursor: canThrow ? 'pointer' : 'not-allowed',
           }}
         >
           Throw!
@@ -160,6 +243,44 @@ export function Controls() {
         </button>
       </div>
 
+      {/* Throw history */}
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button
+          onClick={undo}
+          disabled={!canUndo}
+          title="Undo throw (Ctrl+Z)"
+          style={{
+            flex: 1,
+            padding: '6px 12px',
+            fontSize: '12px',
+            backgroundColor: canUndo ? '#4a4a6a' : '#333',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '6px',
+            cursor: canUndo ? 'pointer' : 'not-allowed',
+          }}
+        >
+          ↶ Undo ({history.past.length})
+        </button>
+        <button
+          onClick={redo}
+          disabled={!canRedo}
+          title="Redo throw (Ctrl+Shift+Z)"
+          style={{
+            flex: 1,
+            padding: '6px 12px',
+            fontSize: '12px',
+            backgroundColor: canRedo ? '#4a4a6a' : '#333',
+            color: '#fff',
+            border: 'none',
+            borderRadius: '6px',
+            cursor: canRedo ? 'pointer' : 'not-allowed',
+          }}
+        >
+          ↷ Redo ({history.future.length})
+        </button>
+      </div>
+
       {/* Phase indicator */}
       <div
         style={{
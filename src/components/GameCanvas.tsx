@@ -1,10 +1,32 @@
-import { useEffect, useRef, useCallback } from 'react';
-import { useGameStore } from '../store';
-import { getThrowStartPosition, calculateThrowVelocity } from '../physics';
+import { useEffect, useMemo, useRef, useCallback, useState } from 'react';
+import { generatePinId, getControlState, useGameStore } from '../store';
+import { getThrowStartPosition } from '../physics';
+import { predictThrow } from '../prediction';
+import { FixedStepClock, FIXED_TIMESTEP_MS } from '../engine';
+import { findPlayer, getPlayerLabel } from '../players';
+import { getBestCell, getHeatColor } from '../explorer';
+import { SURFACES, getWind } from '../environment';
+import { getZoneLabelPoint, getZoneSize } from '../zones';
+import { traceZone } from '../utils/draw';
+import { GRAB_RADIUS, MIN_PULL, getDragAim, getDragPitch, getPullLength } from '../aiming';
+import type { Point } from '../types';
+
+// A slingshot drag in progress. Pitch is set by moving up/down while Shift
+// is held, or with a second finger on touch screens.
+interface AimDrag {
+  pointerId: number;
+  pull: Point;                 // Where the aim was last taken from
+  pitchPointerId: number | null;
+  pitchAnchor: { y: number; pitch: number } | null;
+}
 
 export function GameCanvas() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number | null>(null);
+  const clockRef = useRef(new FixedStepClock());
+  const lastFrameRef = useRef<number | null>(null);
+  const dragRef = useRef<AimDrag | null>(null);
+  const [pull, setPull] = useState<Point | null>(null);
 
   const config = useGameStore((state) => state.config);
   const pins = useGameStore((state) => state.pins);
@@ -12,6 +34,38 @@ export function GameCanvas() {
   const phase = useGameStore((state) => state.phase);
   const simulationStep = useGameStore((state) => state.simulationStep);
   const resolveThrow = useGameStore((state) => state.resolveThrow);
+  const replay = useGameStore((state) => state.replay);
+  const setReplayFrame = useGameStore((state) => state.setReplayFrame);
+  const explorerResult = useGameStore((state) => state.explorerResult);
+  const showHeatmap = useGameStore((state) => state.showHeatmap);
+  const runtime = useGameStore((state) => state.runtime);
+  const currentPlayerId = useGameStore((state) => state.currentPlayerId);
+  const throwCount = useGameStore((state) => state.throwHistory.length);
+  const setThrowParams = useGameStore((state) => state.setThrowParams);
+  const updateConfig = useGameStore((state) => state.updateConfig);
+  const throwPin = useGameStore((state) => state.throwPin);
+
+  // In replay mode the board shows the current replay frame instead
+  const replayFrame = replay ? replay.timeline.frames[replay.frame] : null;
+  const displayPins = replayFrame ? replayFrame.pins : pins;
+  const displayPlayers = replayFrame ? replayFrame.players : players;
+  const isReplayPlaying = replay?.playing ?? false;
+
+  // Preview of the current aim, re-run whenever the aim or board changes
+  const showPrediction = phase === 'idle' && !replayFrame;
+  const prediction = useMemo(
+    () =>
+      showPrediction
+        ? predictThrow(
+            config,
+            pins,
+            players,
+            currentPlayerId,
+            generatePinId(config.seed, throwCount)
+          )
+        : null,
+    [showPrediction, config, pins, players, currentPlayerId, throwCount]
+  );
 
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
@@ -28,64 +82,206 @@ export function GameCanvas() {
     ctx.fillStyle = '#1a1a2e';
     ctx.fillRect(0, 0, canvasSize, canvasSize);
 
-    // Draw rings (from outermost to innermost for proper layering)
+    // Draw zones lowest priority first, and within a priority from the
+    // biggest to the smallest for proper layering
     const sortedRings = [...config.rings].sort(
-      (a, b) => b.outerRadius - a.outerRadius
+      (a, b) => (a.priority ?? 0) - (b.priority ?? 0) || getZoneSize(b) - getZoneSize(a)
     );
 
-    sortedRings.forEach((ring, _idx) => {
+    sortedRings.forEach((ring) => {
       // Find original index for color variation
       const originalIdx = config.rings.indexOf(ring);
       const hue = 120 + originalIdx * 20; // Green variants
       const alpha = 0.3 + originalIdx * 0.1;
 
       ctx.beginPath();
-      ctx.arc(centerX, centerY, ring.outerRadius, 0, Math.PI * 2);
-      ctx.arc(centerX, centerY, ring.innerRadius, 0, Math.PI * 2, true);
+      traceZone(ctx, ring, centerX, centerY);
       ctx.fillStyle = `hsla(${hue}, 60%, 40%, ${alpha})`;
-      ctx.fill();
+      ctx.fill('evenodd');
 
       // Ring border
       ctx.beginPath();
-      ctx.arc(centerX, centerY, ring.outerRadius, 0, Math.PI * 2);
+      traceZone(ctx, ring, centerX, centerY, true);
       ctx.strokeStyle = `hsla(${hue}, 70%, 50%, 0.6)`;
       ctx.lineWidth = 2;
       ctx.stroke();
 
       // Points label
-      const labelRadius = (ring.innerRadius + ring.outerRadius) / 2;
+      const label = getZoneLabelPoint(ring, config);
       ctx.fillStyle = '#fff';
       ctx.font = 'bold 14px Arial';
       ctx.textAlign = 'center';
       ctx.textBaseline = 'middle';
-      ctx.fillText(`${ring.points}pt`, centerX + labelRadius * 0.7, centerY);
+      ctx.fillText(`${ring.points}pt`, label.x, label.y);
+    });
+
+    // Surface patches, in order so later ones cover earlier ones
+    (config.surfaces ?? []).forEach((patch) => {
+      const { region } = patch;
+      ctx.beginPath();
+      if (region.type === 'ring') {
+        const ring = config.rings[region.ringIndex];
+        if (!ring) return;
+        traceZone(ctx, ring, centerX, centerY);
+      } else {
+        ctx.arc(region.x, region.y, region.radius, 0, Math.PI * 2);
+      }
+      ctx.fillStyle = SURFACES[patch.kind].color + '59'; // 35% alpha
+      ctx.fill('evenodd');
     });
 
-    // Draw throw guide (idle phase only)
-    if (phase === 'idle') {
+    // Polygon wall
+    if (config.boundary && config.boundary.length >= 3) {
+      ctx.beginPath();
+      config.boundary.forEach((point, i) => {
+        if (i === 0) ctx.moveTo(point.x, point.y);
+        else ctx.lineTo(point.x, point.y);
+      });
+      ctx.closePath();
+      ctx.strokeStyle = '#94a3b8';
+      ctx.lineWidth = 3;
+      ctx.stroke();
+    }
+
+    // Obstacles
+    (config.obstacles ?? []).forEach((obstacle) => {
+      if (obstacle.type === 'wall') {
+        ctx.beginPath();
+        ctx.moveTo(obstacle.x1, obstacle.y1);
+        ctx.lineTo(obstacle.x2, obstacle.y2);
+        ctx.strokeStyle = '#94a3b8';
+        ctx.lineWidth = obstacle.thickness;
+        ctx.lineCap = 'round';
+        ctx.stroke();
+        ctx.lineCap = 'butt';
+        return;
+      }
+      ctx.beginPath();
+      ctx.arc(obstacle.x, obstacle.y, obstacle.radius, 0, Math.PI * 2);
+      ctx.fillStyle = obstacle.type === 'bumper' ? '#f97316' : '#64748b';
+      ctx.fill();
+      ctx.strokeStyle = obstacle.type === 'bumper' ? '#fed7aa' : '#cbd5e1';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+    });
+
+    // Wind indicator (top left), showing the current gust while a pin flies
+    if (config.wind && config.wind.speed > 0) {
+      const wind = getWind(config, runtime.thrownPinId ?? '', runtime.steps);
+      const strength = Math.hypot(wind.x, wind.y);
+      const length = Math.min(40, 10 + (strength / config.wind.speed) * 15);
+      const heading = Math.atan2(wind.y, wind.x);
+      const originX = 40;
+      const originY = 40;
+
+      ctx.save();
+      ctx.translate(originX, originY);
+      ctx.rotate(heading);
+      ctx.beginPath();
+      ctx.moveTo(-length / 2, 0);
+      ctx.lineTo(length / 2, 0);
+      ctx.lineTo(length / 2 - 6, -5);
+      ctx.moveTo(length / 2, 0);
+      ctx.lineTo(length / 2 - 6, 5);
+      ctx.strokeStyle = '#e0f2fe';
+      ctx.lineWidth = 2;
+      ctx.stroke();
+      ctx.restore();
+
+      ctx.fillStyle = '#e0f2fe';
+      ctx.font = '10px Arial';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(`Wind ${strength.toFixed(2)}`, originX, originY + 28);
+    }
+
+    // Strategy heatmap: each explored aim drawn where its pin comes to rest,
+    // colored by expected points
+    if (explorerResult && showHeatmap && !replayFrame) {
+      const means = explorerResult.cells.map((c) => c.mean);
+      const minMean = Math.min(...means);
+      const maxMean = Math.max(...means);
+      const best = getBestCell(explorerResult);
+
+      explorerResult.cells.forEach((cell) => {
+        ctx.beginPath();
+        ctx.arc(cell.restX, cell.restY, 5, 0, Math.PI * 2);
+        ctx.fillStyle = getHeatColor(cell.mean, minMean, maxMean, 0.6);
+        ctx.fill();
+      });
+
+      if (best) {
+        ctx.beginPath();
+        ctx.arc(best.restX, best.restY, 8, 0, Math.PI * 2);
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+        ctx.fillStyle = '#fff';
+        ctx.font = 'bold 10px Arial';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(`${best.mean.toFixed(1)}`, best.restX, best.restY - 16);
+      }
+    }
+
+    // Draw throw guide (idle phase only): the predicted path of the
+    // current aim, its landing spot, first hit and stop point
+    if (prediction) {
       const start = getThrowStartPosition(canvasSize);
-      const { vx, vy } = calculateThrowVelocity(
-        config.throwPower,
-        config.throwAngle,
-        config.throwPitch
-      );
-
-      // Normalize and scale for display
-      const length = 100 * config.throwPower;
-      const magnitude = Math.sqrt(vx * vx + vy * vy);
-      const dirX = magnitude > 0 ? (vx / magnitude) * length : 0;
-      const dirY = magnitude > 0 ? (vy / magnitude) * length : 0;
-
-      // Draw horizontal trajectory line
+      const { path, landing, stop, settled, firstHit } = prediction;
+
+      // Ground track
       ctx.beginPath();
-      ctx.moveTo(start.x, start.y);
-      ctx.lineTo(start.x + dirX, start.y + dirY);
+      path.forEach((point, i) => {
+        if (i === 0) ctx.moveTo(point.x, point.y);
+        else ctx.lineTo(point.x, point.y);
+      });
       ctx.strokeStyle = '#ff9500';
       ctx.lineWidth = 2;
       ctx.setLineDash([5, 5]);
       ctx.stroke();
       ctx.setLineDash([]);
 
+      // Flight arc, raised like an airborne pin
+      if (landing) {
+        ctx.beginPath();
+        for (const point of path) {
+          ctx.lineTo(point.x, point.y - point.z * 0.8);
+          if (point.x === landing.x && point.y === landing.y) break;
+        }
+        ctx.strokeStyle = '#00ff88';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+
+        // Landing spot
+        const size = 5;
+        ctx.beginPath();
+        ctx.moveTo(landing.x - size, landing.y - size);
+        ctx.lineTo(landing.x + size, landing.y + size);
+        ctx.moveTo(landing.x + size, landing.y - size);
+        ctx.lineTo(landing.x - size, landing.y + size);
+        ctx.strokeStyle = '#00ff88';
+        ctx.stroke();
+      }
+
+      // First collision
+      if (firstHit) {
+        ctx.beginPath();
+        ctx.arc(firstHit.x, firstHit.y, config.pinRadius * 0.8, 0, Math.PI * 2);
+        ctx.strokeStyle = '#ef4444';
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      }
+
+      // Predicted stop point (grey if the preview ran out first)
+      ctx.beginPath();
+      ctx.arc(stop.x, stop.y, config.pinRadius, 0, Math.PI * 2);
+      ctx.strokeStyle = settled ? '#ff9500' : '#888';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([3, 3]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
       // Draw vertical (pitch) indicator - arc showing upward angle
       if (config.throwPitch > 0) {
         const pitchRad = (config.throwPitch * Math.PI) / 180;
@@ -104,6 +300,20 @@ export function GameCanvas() {
         ctx.fillText(`${config.throwPitch}°↑`, start.x + 25, start.y - 10);
       }
 
+      // Slingshot band while dragging
+      if (pull) {
+        ctx.beginPath();
+        ctx.moveTo(start.x, start.y);
+        ctx.lineTo(pull.x, pull.y);
+        ctx.strokeStyle = '#fbbf24';
+        ctx.lineWidth = 3;
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(pull.x, pull.y, 6, 0, Math.PI * 2);
+        ctx.fillStyle = '#fbbf24';
+        ctx.fill();
+      }
+
       // Start indicator
       ctx.beginPath();
       ctx.arc(start.x, start.y, 8, 0, Math.PI * 2);
@@ -112,10 +322,11 @@ export function GameCanvas() {
     }
 
     // Draw pins - sort by z to draw lower pins first (painter's algorithm)
-    const sortedPins = [...pins].sort((a, b) => a.z - b.z);
+    const sortedPins = [...displayPins].sort((a, b) => a.z - b.z);
 
     sortedPins.forEach((pin) => {
-      const playerColor = players[pin.playerId - 1].color;
+      const owner = findPlayer(displayPlayers, pin.playerId);
+      const playerColor = owner?.color ?? '#888888';
 
       // Calculate visual offset based on z (height)
       // Higher z means the pin appears higher on screen (subtract from y)
@@ -141,9 +352,10 @@ export function GameCanvas() {
       }
 
       if (pin.state === 'fallen') {
-        // Fallen pin: semi-transparent ellipse/shadow
+        // Fallen pin: semi-transparent ellipse/shadow, lying along its heading
         ctx.save();
         ctx.translate(pin.x, visualY);
+        ctx.rotate(pin.angle ?? 0);
         ctx.scale(1.3, 0.6);
         ctx.beginPath();
         ctx.arc(0, 0, effectiveRadius, 0, Math.PI * 2);
@@ -159,6 +371,32 @@ export function GameCanvas() {
         ctx.strokeStyle = '#fff';
         ctx.lineWidth = 2;
         ctx.stroke();
+
+        // Rocking pin: line from the base toward where its top leans
+        if (pin.tilt) {
+          const lean = Math.sin(pin.tilt) * config.pinHeight;
+          const heading = pin.angle ?? 0;
+          ctx.beginPath();
+          ctx.moveTo(pin.x, visualY);
+          ctx.lineTo(pin.x + Math.cos(heading) * lean, visualY + Math.sin(heading) * lean);
+          ctx.strokeStyle = '#ff9500';
+          ctx.lineWidth = 3;
+          ctx.stroke();
+        }
+      }
+
+      // Spinning pin: tick mark that turns with the pin
+      if (pin.spin) {
+        const heading = pin.angle ?? 0;
+        ctx.beginPath();
+        ctx.moveTo(pin.x, visualY);
+        ctx.lineTo(
+          pin.x + Math.cos(heading) * effectiveRadius,
+          visualY + Math.sin(heading) * effectiveRadius
+        );
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 1;
+        ctx.stroke();
       }
 
       // Moving indicator with height info
@@ -185,15 +423,30 @@ export function GameCanvas() {
       ctx.font = `bold ${Math.round(10 * zScale)}px Arial`;
       ctx.textAlign = 'center';
       ctx.textBaseline = 'middle';
-      ctx.fillText(`P${pin.playerId}`, pin.x, visualY);
+      ctx.fillText(getPlayerLabel(owner, pin.playerId), pin.x, visualY);
     });
-  }, [config, pins, players, phase]);
+  }, [
+    config,
+    displayPins,
+    displayPlayers,
+    replayFrame,
+    explorerResult,
+    showHeatmap,
+    runtime,
+    prediction,
+    pull,
+  ]);
 
   // Animation loop for simulation
   useEffect(() => {
     if (phase === 'simulating') {
-      const animate = () => {
-        const isStillMoving = simulationStep();
+      // Run fixed physics steps for the elapsed frame time so the throw
+      // plays at the same speed regardless of display refresh rate
+      const animate = (now: number) => {
+        const last = lastFrameRef.current ?? now - FIXED_TIMESTEP_MS;
+        lastFrameRef.current = now;
+        const steps = clockRef.current.consume(now - last);
+        const isStillMoving = steps > 0 ? simulationStep(steps) : true;
         draw();
 
         if (isStillMoving) {
@@ -212,11 +465,32 @@ export function GameCanvas() {
         }
       };
     } else {
+      lastFrameRef.current = null;
+      clockRef.current.reset();
       // Just draw when not simulating
       draw();
     }
   }, [phase, simulationStep, resolveThrow, draw]);
 
+  // Replay playback - advances one recorded frame per fixed step
+  useEffect(() => {
+    if (!isReplayPlaying) return;
+
+    let last: number | null = null;
+    const clock = new FixedStepClock();
+    const animate = (now: number) => {
+      const steps = clock.consume(last === null ? FIXED_TIMESTEP_MS : now - last);
+      last = now;
+      const current = useGameStore.getState().replay;
+      if (!current?.playing) return;
+      if (steps > 0) setReplayFrame(current.frame + steps);
+      frameId = requestAnimationFrame(animate);
+    };
+
+    let frameId = requestAnimationFrame(animate);
+    return () => cancelAnimationFrame(frameId);
+  }, [isReplayPlaying, setReplayFrame]);
+
   // Redraw when config or pins change (outside simulation)
   useEffect(() => {
     if (phase !== 'simulating') {
@@ -224,15 +498,120 @@ export function GameCanvas() {
     }
   }, [config, pins, phase, draw]);
 
+  // Drag-to-aim is for human players between throws
+  const { canAim } = getControlState({ phase, replay, players, currentPlayerId, config });
+
+  // Pointer position in board coordinates (the canvas may be scaled by CSS)
+  const toBoardPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * config.canvasSize,
+      y: ((e.clientY - rect.top) / rect.height) * config.canvasSize,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!canAim) return;
+    const point = toBoardPoint(e);
+    const drag = dragRef.current;
+
+    // A second finger adjusts pitch while the first one aims
+    if (drag) {
+      if (drag.pitchPointerId === null) {
+        drag.pitchPointerId = e.pointerId;
+        drag.pitchAnchor = { y: point.y, pitch: config.throwPitch };
+        e.currentTarget.setPointerCapture(e.pointerId);
+      }
+      return;
+    }
+
+    const start = getThrowStartPosition(config.canvasSize);
+    if (getPullLength(start, point) > GRAB_RADIUS) return;
+    dragRef.current = {
+      pointerId: e.pointerId,
+      pull: point,
+      pitchPointerId: null,
+      pitchAnchor: null,
+    };
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setPull(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toBoardPoint(e);
+
+    const { pitchAnchor } = drag;
+    if (e.pointerId === drag.pitchPointerId && pitchAnchor) {
+      updateConfig({ throwPitch: getDragPitch(pitchAnchor.pitch, pitchAnchor.y, point.y) });
+      return;
+    }
+    if (e.pointerId !== drag.pointerId) return;
+
+    // Shift holds the aim and turns vertical movement into pitch
+    if (e.shiftKey) {
+      const anchor = (drag.pitchAnchor ??= { y: point.y, pitch: config.throwPitch });
+      updateConfig({ throwPitch: getDragPitch(anchor.pitch, anchor.y, point.y) });
+      return;
+    }
+    if (drag.pitchPointerId === null) drag.pitchAnchor = null;
+
+    const aim = getDragAim(getThrowStartPosition(config.canvasSize), point);
+    setThrowParams(aim.throwAngle, aim.throwPower);
+    drag.pull = point;
+    setPull(point);
+  };
+
+  // Letting go of the pin throws it, unless it was barely pulled
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    if (e.pointerId === drag.pitchPointerId) {
+      drag.pitchPointerId = null;
+      drag.pitchAnchor = null;
+      return;
+    }
+    if (e.pointerId !== drag.pointerId) return;
+
+    dragRef.current = null;
+    setPull(null);
+    const start = getThrowStartPosition(config.canvasSize);
+    if (getPullLength(start, drag.pull) >= MIN_PULL) throwPin();
+  };
+
+  const handlePointerCancel = useCallback(() => {
+    dragRef.current = null;
+    setPull(null);
+  }, []);
+
+  // Escape drops the pin without throwing
+  useEffect(() => {
+    if (!pull) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') handlePointerCancel();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [pull, handlePointerCancel]);
+
   return (
     <canvas
       ref={canvasRef}
       width={config.canvasSize}
       height={config.canvasSize}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerCancel}
       style={{
         border: '2px solid #4a4a6a',
         borderRadius: '8px',
         backgroundColor: '#1a1a2e',
+        // Keep touch drags from scrolling the page
+        touchAction: 'none',
+        cursor: canAim ? (pull ? 'grabbing' : 'grab') : 'default',
       }}
     />
   );
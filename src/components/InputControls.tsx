@@ -0,0 +1,408 @@
+import { useEffect, useRef, useState } from 'react';
+import { getControlState, useGameStore } from '../store';
+import {
+  DEFAULT_INPUT_BINDINGS,
+  FAST_STEP_MULTIPLIER,
+  INPUT_ACTION_LABELS,
+  KEY_STEPS,
+  STICK_ANGLE_RATE,
+  STICK_PITCH_RATE,
+  bindGamepadButton,
+  bindKey,
+  describeGamepadAxis,
+  describeGamepadButton,
+  describeKey,
+  findKeyAction,
+  getMeterPower,
+  nudgeAim,
+  readStick,
+} from '../input';
+import type { GamepadAction, InputAction, InputBindings } from '../input';
+
+// A binding being changed: the next key or gamepad button press replaces it
+type Rebinding =
+  | { device: 'key'; action: InputAction }
+  | { device: 'pad'; action: GamepadAction };
+
+const GAMEPAD_ACTION_LABELS: Record<GamepadAction, string> = {
+  throw: 'Hold to charge, release to throw',
+  nextTurn: INPUT_ACTION_LABELS.nextTurn,
+  reset: INPUT_ACTION_LABELS.reset,
+  help: INPUT_ACTION_LABELS.help,
+};
+
+// Run one action if the current phase allows it, the same way Controls
+// enables its buttons
+function applyAction(action: InputAction, scale = 1) {
+  const state = useGameStore.getState();
+  const { canAim, canThrow, canNextTurn } = getControlState(state);
+  const aim = (delta: { angle?: number; power?: number; pitch?: number }) => {
+    if (canAim) state.updateConfig(nudgeAim(state.config, delta));
+  };
+
+  switch (action) {
+    case 'angleLeft':
+      return aim({ angle: -KEY_STEPS.angle * scale });
+    case 'angleRight':
+      return aim({ angle: KEY_STEPS.angle * scale });
+    case 'powerUp':
+      return aim({ power: KEY_STEPS.power * scale });
+    case 'powerDown':
+      return aim({ power: -KEY_STEPS.power * scale });
+    case 'pitchUp':
+      return aim({ pitch: KEY_STEPS.pitch * scale });
+    case 'pitchDown':
+      return aim({ pitch: -KEY_STEPS.pitch * scale });
+    case 'throw':
+      if (canThrow) state.throwPin();
+      return;
+    case 'nextTurn':
+      if (canNextTurn) state.nextTurn();
+      return;
+    case 'reset':
+      // Controls (and its Reset button) is hidden during replays
+      if (state.replay === null && window.confirm('Reset the match? All scores will be lost.')) {
+        state.reset();
+      }
+      return;
+    case 'help':
+      state.setShowInputHelp(!state.showInputHelp);
+      return;
+  }
+}
+
+function ControlsHelp({
+  bindings,
+  rebinding,
+  gamepadName,
+  onRebind,
+  onReset,
+  onClose,
+}: {
+  bindings: InputBindings;
+  rebinding: Rebinding | null;
+  gamepadName: string | null;
+  onRebind: (rebinding: Rebinding | null) => void;
+  onReset: () => void;
+  onClose: () => void;
+}) {
+  const buttonStyle = (active: boolean): React.CSSProperties => ({
+    minWidth: '110px',
+    padding: '4px 8px',
+    backgroundColor: active ? '#f59e0b' : '#4a4a6a',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '11px',
+    cursor: 'pointer',
+  });
+
+  const row = (label: string, control: React.ReactNode, key: string) => (
+    <div key={key} style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+      <span style={{ flex: 1, color: '#ccc' }}>{label}</span>
+      {control}
+    </div>
+  );
+
+  const isRebinding = (device: Rebinding['device'], action: string) =>
+    rebinding?.device === device && rebinding.action === action;
+
+  const toggleRebinding = (next: Rebinding) =>
+    onRebind(isRebinding(next.device, next.action) ? null : next);
+
+  const fixed = (text: string) => <span style={{ color: '#aaa' }}>{text}</span>;
+
+  return (
+    <div
+      onClick={onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 10,
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Keyboard and gamepad controls"
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '6px',
+          padding: '16px',
+          backgroundColor: '#2a2a4a',
+          borderRadius: '8px',
+          width: '340px',
+          maxHeight: '90vh',
+          overflowY: 'auto',
+          fontSize: '12px',
+        }}
+      >
+        <h3 style={{ margin: 0, color: '#fff', fontSize: '14px' }}>Controls</h3>
+        <div style={{ color: '#888', fontSize: '11px' }}>
+          Click a binding, then press the new key or button (Esc cancels). Hold Shift for
+          bigger aim steps.
+        </div>
+
+        <div style={{ color: '#fff', fontWeight: 'bold', marginTop: '6px' }}>Keyboard</div>
+        {(Object.keys(INPUT_ACTION_LABELS) as InputAction[]).map((action) =>
+          row(
+            INPUT_ACTION_LABELS[action],
+            <button
+              onClick={() => toggleRebinding({ device: 'key', action })}
+              style={buttonStyle(isRebinding('key', action))}
+            >
+              {isRebinding('key', action)
+                ? 'Press a key…'
+                : bindings.keys[action].map(describeKey).join(' / ') || 'Unbound'}
+            </button>,
+            `key-${action}`
+          )
+        )}
+        {row('Undo / redo throw', fixed('Ctrl+Z / Ctrl+Shift+Z'), 'undo')}
+
+        <div style={{ color: '#fff', fontWeight: 'bold', marginTop: '6px' }}>Gamepad</div>
+        <div style={{ color: gamepadName ? '#22c55e' : '#888', fontSize: '11px' }}>
+          {gamepadName ?? 'No gamepad connected — press any button on it to connect'}
+        </div>
+        {row('Aim', fixed(describeGamepadAxis(bindings.gamepad.aimAxis)), 'aim')}
+        {row('Pitch', fixed(describeGamepadAxis(bindings.gamepad.pitchAxis)), 'pitch')}
+        {(Object.keys(GAMEPAD_ACTION_LABELS) as GamepadAction[]).map((action) =>
+          row(
+            GAMEPAD_ACTION_LABELS[action],
+            <button
+              onClick={() => toggleRebinding({ device: 'pad', action })}
+              style={buttonStyle(isRebinding('pad', action))}
+            >
+              {isRebinding('pad', action)
+                ? 'Press a button…'
+                : describeGamepadButton(bindings.gamepad.buttons[action])}
+            </button>,
+            `pad-${action}`
+          )
+        )}
+
+        <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+          <button onClick={onReset} style={{ ...buttonStyle(false), flex: 1 }}>
+            Restore defaults
+          </button>
+          <button
+            onClick={onClose}
+            style={{ ...buttonStyle(false), flex: 1, backgroundColor: '#3b82f6' }}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Keyboard and gamepad play, plus the controls overlay
+export function InputControls() {
+  const bindings = useGameStore((state) => state.inputBindings);
+  const showHelp = useGameStore((state) => state.showInputHelp);
+  const throwPower = useGameStore((state) => state.config.throwPower);
+  const setInputBindings = useGameStore((state) => state.setInputBindings);
+  const setShowInputHelp = useGameStore((state) => state.setShowInputHelp);
+
+  const [rebinding, setRebinding] = useState<Rebinding | null>(null);
+  const [charging, setCharging] = useState(false);
+  const [gamepadName, setGamepadName] = useState<string | null>(null);
+  // The input handlers outlive renders, so they read the rebinding from here
+  const rebindingRef = useRef<Rebinding | null>(null);
+
+  const startRebinding = (next: Rebinding | null) => {
+    rebindingRef.current = next;
+    setRebinding(next);
+  };
+
+  const closeHelp = () => {
+    startRebinding(null);
+    setShowInputHelp(false);
+  };
+
+  // Keyboard. Text fields, sliders and modified keys (Ctrl+Z etc.) keep
+  // their usual meaning.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const state = useGameStore.getState();
+      const pending = rebindingRef.current;
+      if (pending) {
+        e.preventDefault();
+        if (e.key !== 'Escape' && pending.device === 'key') {
+          state.setInputBindings(bindKey(state.inputBindings, pending.action, e.key));
+        }
+        rebindingRef.current = null;
+        setRebinding(null);
+        return;
+      }
+      // A focused button already clicks on Space and Enter
+      if (target?.closest('button') && (e.key === ' ' || e.key === 'Enter')) return;
+
+      const action = findKeyAction(state.inputBindings, e.key);
+      // While the overlay is open only closing it does anything
+      if (state.showInputHelp) {
+        if (e.key === 'Escape' || action === 'help') {
+          e.preventDefault();
+          state.setShowInputHelp(false);
+        }
+        return;
+      }
+      if (!action) return;
+      e.preventDefault();
+      applyAction(action, e.shiftKey ? FAST_STEP_MULTIPLIER : 1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Gamepad. Browsers have no gamepad input events, so poll once per frame
+  // while a pad is connected.
+  useEffect(() => {
+    let frameId: number | null = null;
+    let previous: boolean[] = [];
+    let chargeStart: number | null = null;
+
+    const stopCharging = () => {
+      chargeStart = null;
+      setCharging(false);
+    };
+
+    const poll = (time: number) => {
+      const pad = navigator.getGamepads().find((p) => p !== null && p.connected) ?? null;
+      if (!pad) {
+        frameId = null;
+        previous = [];
+        stopCharging();
+        setGamepadName(null);
+        return;
+      }
+      frameId = requestAnimationFrame(poll);
+      setGamepadName(pad.id);
+
+      const pressed = pad.buttons.map((b) => b.pressed);
+      const last = previous;
+      const justPressed = (button: number) => pressed[button] && !last[button];
+      previous = pressed;
+
+      const state = useGameStore.getState();
+      const { buttons, aimAxis, pitchAxis } = state.inputBindings.gamepad;
+
+      const pending = rebindingRef.current;
+      if (pending) {
+        const button = pressed.findIndex((_, i) => justPressed(i));
+        if (pending.device === 'pad' && button !== -1) {
+          state.setInputBindings(bindGamepadButton(state.inputBindings, pending.action, button));
+          rebindingRef.current = null;
+          setRebinding(null);
+        }
+        return;
+      }
+      if (state.showInputHelp) {
+        if (chargeStart !== null) stopCharging();
+        if (justPressed(buttons.help)) state.setShowInputHelp(false);
+        return;
+      }
+
+      const { canAim, canThrow } = getControlState(state);
+
+      // Power meter: holding the throw button sweeps the power up and down,
+      // letting go throws at whatever it shows
+      if (chargeStart !== null) {
+        if (!canThrow) {
+          stopCharging();
+        } else if (pressed[buttons.throw]) {
+          state.updateConfig({ throwPower: getMeterPower(time - chargeStart) });
+        } else {
+          stopCharging();
+          state.throwPin();
+        }
+      } else if (justPressed(buttons.throw) && canThrow) {
+        chargeStart = time;
+        setCharging(true);
+      }
+
+      // Sticks turn the aim and pitch at a rate, so letting go keeps the aim
+      const x = readStick(pad.axes[aimAxis]);
+      const y = readStick(pad.axes[pitchAxis]);
+      if (canAim && (x !== 0 || y !== 0)) {
+        state.updateConfig(
+          nudgeAim(state.config, { angle: x * STICK_ANGLE_RATE, pitch: -y * STICK_PITCH_RATE })
+        );
+      }
+
+      if (justPressed(buttons.nextTurn)) applyAction('nextTurn');
+      if (justPressed(buttons.help)) applyAction('help');
+      if (justPressed(buttons.reset)) {
+        // The confirm dialog swallows the release, so start fresh afterwards
+        previous = [];
+        applyAction('reset');
+      }
+    };
+
+    const start = () => {
+      if (frameId === null) frameId = requestAnimationFrame(poll);
+    };
+
+    window.addEventListener('gamepadconnected', start);
+    if (navigator.getGamepads().some((p) => p !== null)) start();
+    return () => {
+      window.removeEventListener('gamepadconnected', start);
+      if (frameId !== null) cancelAnimationFrame(frameId);
+    };
+  }, []);
+
+  return (
+    <>
+      {charging && (
+        <div
+          style={{
+            position: 'fixed',
+            bottom: '24px',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            width: '240px',
+            padding: '8px',
+            backgroundColor: '#2a2a4a',
+            borderRadius: '8px',
+            boxShadow: '0 2px 8px rgba(0, 0, 0, 0.5)',
+            zIndex: 5,
+          }}
+        >
+          <div style={{ color: '#aaa', fontSize: '11px', marginBottom: '4px' }}>
+            Power {(throwPower * 100).toFixed(0)}% — release to throw
+          </div>
+          <div style={{ height: '10px', backgroundColor: '#1a1a2e', borderRadius: '5px' }}>
+            <div
+              style={{
+                width: `${throwPower * 100}%`,
+                height: '100%',
+                borderRadius: '5px',
+                backgroundColor: `hsl(${120 - throwPower * 120}, 80%, 50%)`,
+              }}
+            />
+          </div>
+        </div>
+      )}
+      {showHelp && (
+        <ControlsHelp
+          bindings={bindings}
+          rebinding={rebinding}
+          gamepadName={gamepadName}
+          onRebind={startRebinding}
+          onReset={() => setInputBindings(DEFAULT_INPUT_BINDINGS)}
+          onClose={closeHelp}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,85 @@
+import { useGameStore } from '../store';
+import { getSides } from '../players';
+
+export function MatchSummary() {
+  const phase = useGameStore((state) => state.phase);
+  const matchResult = useGameStore((state) => state.matchResult);
+  const players = useGameStore((state) => state.players);
+  const eventLog = useGameStore((state) => state.eventLog);
+  const rematch = useGameStore((state) => state.rematch);
+
+  if (phase !== 'matchOver' || !matchResult) return null;
+
+  // Rank sides (teams, or individual players without a team)
+  const ranked = getSides(players).sort((a, b) => b.score - a.score);
+  const winners = ranked.filter((side) =>
+    side.playerIds.some((id) => matchResult.winnerIds.includes(id))
+  );
+  const headline = matchResult.isTie
+    ? `Tie between ${winners.map((p) => p.name).join(' & ')}`
+    : `${winners[0]?.name ?? 'Nobody'} wins!`;
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '10px',
+        padding: '16px',
+        backgroundColor: '#2a2a4a',
+        border: `2px solid ${matchResult.isTie ? '#fbbf24' : winners[0]?.color ?? '#fff'}`,
+        borderRadius: '8px',
+        minWidth: '300px',
+        textAlign: 'center',
+      }}
+    >
+      <div style={{ color: '#888', fontSize: '12px' }}>Match over · {matchResult.reason}</div>
+      <div
+        style={{
+          color: matchResult.isTie ? '#fbbf24' : winners[0]?.color ?? '#fff',
+          fontSize: '20px',
+          fontWeight: 'bold',
+        }}
+      >
+        {headline}
+      </div>
+
+      {/* Final standings */}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+        {ranked.map((side) => (
+          <div
+            key={side.key}
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              padding: '4px 8px',
+              backgroundColor: '#1a1a2e',
+              borderRadius: '4px',
+              fontSize: '13px',
+            }}
+          >
+            <span style={{ color: side.color, fontWeight: 'bold' }}>{side.name}</span>
+            <span style={{ color: '#fff' }}>{side.score}</span>
+          </div>
+        ))}
+      </div>
+      <div style={{ color: '#666', fontSize: '11px' }}>{eventLog.length} throws</div>
+
+      <button
+        onClick={rematch}
+        style={{
+          padding: '10px 16px',
+          fontSize: '14px',
+          fontWeight: 'bold',
+          backgroundColor: '#22c55e',
+          color: '#fff',
+          border: 'none',
+          borderRadius: '6px',
+          cursor: 'pointer',
+        }}
+      >
+        Rematch
+      </button>
+    </div>
+  );
+}
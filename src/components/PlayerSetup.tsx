@@ -0,0 +1,307 @@
+import { useGameStore } from '../store';
+import { findPlayer, getPlayerLabel, hasTeams, interleaveSides } from '../players';
+import { MAX_PLAYERS, TEAMS } from '../types';
+import type { AiDifficulty, Handedness } from '../types';
+import { AI_LEVELS } from '../ai';
+
+export function PlayerSetup() {
+  const players = useGameStore((state) => state.players);
+  const turnOrder = useGameStore((state) => state.turnOrder);
+  const throwHistory = useGameStore((state) => state.throwHistory);
+  const profiles = useGameStore((state) => state.profiles);
+
+  const addPlayer = useGameStore((state) => state.addPlayer);
+  const removePlayer = useGameStore((state) => state.removePlayer);
+  const updatePlayer = useGameStore((state) => state.updatePlayer);
+  const setTurnOrder = useGameStore((state) => state.setTurnOrder);
+  const restoreDefaultPlayers = useGameStore((state) => state.restoreDefaultPlayers);
+  const saveProfile = useGameStore((state) => state.saveProfile);
+  const applyProfile = useGameStore((state) => state.applyProfile);
+  const deleteProfile = useGameStore((state) => state.deleteProfile);
+
+  // Adding, removing, reordering and teams are locked once the first pin
+  // has been thrown; names, colors and notes can be edited any time
+  const canEdit = throwHistory.length === 0;
+  const canAdd = canEdit && players.length < MAX_PLAYERS;
+  const canRemove = canEdit && players.length > 2;
+
+  const moveInOrder = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= turnOrder.length) return;
+    const order = [...turnOrder];
+    [order[index], order[target]] = [order[target], order[index]];
+    setTurnOrder(order);
+  };
+
+  const smallButton = (enabled: boolean, color = '#4a4a6a'): React.CSSProperties => ({
+    padding: '2px 6px',
+    backgroundColor: enabled ? color : '#333',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '10px',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+  });
+
+  const inputStyle: React.CSSProperties = {
+    padding: '2px 4px',
+    backgroundColor: '#1a1a2e',
+    border: '1px solid #4a4a6a',
+    borderRadius: '4px',
+    color: '#fff',
+    fontSize: '11px',
+    minWidth: 0,
+  };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        padding: '16px',
+        backgroundColor: '#2a2a4a',
+        borderRadius: '8px',
+        minWidth: '240px',
+        maxWidth: '280px',
+        fontSize: '12px',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: '4px',
+        }}
+      >
+        <h3 style={{ margin: 0, color: '#fff', fontSize: '14px' }}>
+          Players ({players.length})
+        </h3>
+        <button onClick={addPlayer} disabled={!canAdd} style={smallButton(canAdd, '#22c55e')}>
+          + Add
+        </button>
+      </div>
+
+      {/* Players listed in throwing order */}
+      {turnOrder.map((playerId, index) => {
+        const player = findPlayer(players, playerId);
+        if (!player) return null;
+        return (
+          <div
+            key={player.id}
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '4px',
+              padding: '6px',
+              backgroundColor: '#1a1a2e',
+              borderRadius: '4px',
+              borderLeft: `3px solid ${player.color}`,
+            }}
+          >
+            <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+              <span style={{ color: '#888', fontSize: '10px', width: '14px' }}>
+                {index + 1}.
+              </span>
+              <input
+                type="color"
+                value={player.color}
+                onChange={(e) => updatePlayer(player.id, { color: e.target.value })}
+                title="Color"
+                style={{ width: '22px', height: '20px', padding: 0, border: 'none' }}
+              />
+              <input
+                type="text"
+                value={player.name}
+                onChange={(e) => updatePlayer(player.id, { name: e.target.value })}
+                title="Name"
+                style={{ ...inputStyle, flex: 1 }}
+              />
+              <input
+                type="text"
+                value={player.glyph ?? ''}
+                placeholder={getPlayerLabel({ ...player, glyph: undefined })}
+                maxLength={3}
+                onChange={(e) => updatePlayer(player.id, { glyph: e.target.value })}
+                title="Pin label (initials if empty)"
+                style={{ ...inputStyle, width: '30px', textAlign: 'center' }}
+              />
+              <button
+                onClick={() => removePlayer(player.id)}
+                disabled={!canRemove}
+                style={smallButton(canRemove, '#ef4444')}
+              >
+                X
+              </button>
+            </div>
+
+            <div style={{ display: 'flex', gap: '4px', alignItems: 'center', flexWrap: 'wrap' }}>
+              <select
+                value={player.teamId ?? ''}
+                onChange={(e) =>
+                  updatePlayer(player.id, {
+                    teamId: e.target.value === '' ? null : Number(e.target.value),
+                  })
+                }
+                disabled={!canEdit}
+                title="Team"
+                style={inputStyle}
+              >
+                <option value="">Solo</option>
+                {TEAMS.map((team) => (
+                  <option key={team.id} value={team.id}>
+                    {team.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={player.handedness ?? ''}
+                onChange={(e) =>
+                  updatePlayer(player.id, {
+                    handedness: (e.target.value || undefined) as Handedness | undefined,
+                  })
+                }
+                title="Handedness"
+                style={inputStyle}
+              >
+                <option value="">Hand</option>
+                <option value="right">Right</option>
+                <option value="left">Left</option>
+              </select>
+              <select
+                value={player.ai ?? ''}
+                onChange={(e) =>
+                  updatePlayer(player.id, {
+                    ai: (e.target.value || undefined) as AiDifficulty | undefined,
+                  })
+                }
+                title="Controlled by"
+                style={inputStyle}
+              >
+                <option value="">Human</option>
+                {(Object.keys(AI_LEVELS) as AiDifficulty[]).map((difficulty) => (
+                  <option key={difficulty} value={difficulty}>
+                    AI {AI_LEVELS[difficulty].label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => moveInOrder(index, -1)}
+                disabled={!canEdit || index === 0}
+                title="Throw earlier"
+                style={smallButton(canEdit && index > 0)}
+              >
+                ▲
+              </button>
+              <button
+                onClick={() => moveInOrder(index, 1)}
+                disabled={!canEdit || index === turnOrder.length - 1}
+                title="Throw later"
+                style={smallButton(canEdit && index < turnOrder.length - 1)}
+              >
+                ▼
+              </button>
+              <button
+                onClick={() => saveProfile(player.id)}
+                title={player.profileId ? 'Update saved profile' : 'Save as profile'}
+                style={smallButton(true, '#8b5cf6')}
+              >
+                ★
+              </button>
+            </div>
+
+            <input
+              type="text"
+              value={player.notes ?? ''}
+              placeholder="Notes"
+              onChange={(e) => updatePlayer(player.id, { notes: e.target.value })}
+              style={inputStyle}
+            />
+
+            {profiles.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => applyProfile(player.id, e.target.value)}
+                style={inputStyle}
+              >
+                <option value="">Load profile…</option>
+                {profiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+        );
+      })}
+
+      {hasTeams(players) && (
+        <button
+          onClick={() => setTurnOrder(interleaveSides(players))}
+          disabled={!canEdit}
+          style={{ ...smallButton(canEdit), padding: '4px 8px' }}
+        >
+          Alternate turns between teams
+        </button>
+      )}
+
+      <button
+        onClick={restoreDefaultPlayers}
+        disabled={!canEdit}
+        style={{ ...smallButton(canEdit), padding: '4px 8px' }}
+      >
+        Restore default players
+      </button>
+
+      {!canEdit && (
+        <div style={{ color: '#666', fontSize: '10px' }}>
+          Roster is locked during a match — reset to change it
+        </div>
+      )}
+
+      {/* Saved profiles */}
+      {profiles.length > 0 && (
+        <div style={{ marginTop: '6px' }}>
+          <div style={{ color: '#aaa', fontSize: '11px', marginBottom: '4px' }}>
+            Saved profiles
+          </div>
+          {profiles.map((profile) => (
+            <div
+              key={profile.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                marginBottom: '2px',
+              }}
+            >
+              <div
+                style={{
+                  width: '10px',
+                  height: '10px',
+                  borderRadius: '50%',
+                  backgroundColor: profile.color,
+                }}
+              />
+              <span style={{ flex: 1, color: '#ddd', fontSize: '11px' }} title={profile.notes}>
+                {profile.name}
+                {profile.handedness && (
+                  <span style={{ color: '#666' }}> · {profile.handedness}</span>
+                )}
+              </span>
+              <button
+                onClick={() => deleteProfile(profile.id)}
+                title="Delete profile"
+                style={smallButton(true, '#ef4444')}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { useRef, useState } from 'react';
+import { useGameStore } from '../store';
+import {
+  buildReplayTimeline,
+  createRecording,
+  parseMatchFile,
+  serializeMatch,
+} from '../replay';
+
+export function ReplayControls() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const phase = useGameStore((state) => state.phase);
+  const throwHistory = useGameStore((state) => state.throwHistory);
+  const replay = useGameStore((state) => state.replay);
+
+  const startReplay = useGameStore((state) => state.startReplay);
+  const stopReplay = useGameStore((state) => state.stopReplay);
+  const setReplayFrame = useGameStore((state) => state.setReplayFrame);
+  const setReplayPlaying = useGameStore((state) => state.setReplayPlaying);
+
+  const isSettled = phase === 'idle' || phase === 'turnEnd' || phase === 'matchOver';
+  const hasThrows = isSettled && throwHistory.length > 0;
+
+  const buttonStyle = (enabled: boolean, color = '#4a4a6a'): React.CSSProperties => ({
+    flex: 1,
+    padding: '6px 8px',
+    fontSize: '12px',
+    fontWeight: 'bold',
+    backgroundColor: enabled ? color : '#333',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+  });
+
+  const handleReplayCurrent = () => {
+    setError(null);
+    startReplay(buildReplayTimeline(createRecording(useGameStore.getState())));
+  };
+
+  const handleExport = () => {
+    const state = useGameStore.getState();
+    const blob = new Blob([serializeMatch(createRecording(state))], {
+      type: 'application/json',
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `wagiri-match-${state.config.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const recording = parseMatchFile(await file.text());
+      setError(null);
+      startReplay(buildReplayTimeline(recording));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const containerStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '8px',
+    padding: '12px 16px',
+    backgroundColor: '#2a2a4a',
+    borderRadius: '8px',
+    minWidth: '300px',
+  };
+
+  if (!replay) {
+    return (
+      <div style={containerStyle}>
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <button
+            onClick={handleReplayCurrent}
+            disabled={!hasThrows}
+            style={buttonStyle(hasThrows, '#8b5cf6')}
+          >
+            Replay Match
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!hasThrows}
+            style={buttonStyle(hasThrows)}
+          >
+            Export
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!isSettled}
+            style={buttonStyle(isSettled)}
+          >
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            style={{ display: 'none' }}
+          />
+        </div>
+        {error && (
+          <div style={{ color: '#ef4444', fontSize: '11px' }}>{error}</div>
+        )}
+      </div>
+    );
+  }
+
+  const { timeline, frame, playing } = replay;
+  const lastFrame = Math.max(0, timeline.frames.length - 1);
+  const currentThrow = timeline.frames[frame]?.throwIndex ?? 0;
+  const throwCount = timeline.throwStartFrames.length;
+
+  const jumpToThrow = (throwIndex: number) => {
+    const target = Math.max(0, Math.min(throwCount - 1, throwIndex));
+    setReplayPlaying(false);
+    setReplayFrame(timeline.throwStartFrames[target] ?? 0);
+  };
+
+  const stepFrame = (delta: number) => {
+    setReplayPlaying(false);
+    setReplayFrame(frame + delta);
+  };
+
+  return (
+    <div style={containerStyle}>
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          color: '#c4b5fd',
+          fontSize: '12px',
+          fontWeight: 'bold',
+        }}
+      >
+        <span>Replay</span>
+        <span>
+          Throw {currentThrow + 1}/{throwCount} · Frame {frame}/{lastFrame}
+        </span>
+      </div>
+
+      {/* Timeline scrubber */}
+      <input
+        type="range"
+        min={0}
+        max={lastFrame}
+        step={1}
+        value={frame}
+        onChange={(e) => {
+          setReplayPlaying(false);
+          setReplayFrame(Number(e.target.value));
+        }}
+        style={{ width: '100%' }}
+      />
+
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <button
+          onClick={() => jumpToThrow(currentThrow - 1)}
+          title="Previous throw"
+          style={buttonStyle(true)}
+        >
+          ⏮
+        </button>
+        <button
+          onClick={() => stepFrame(-1)}
+          title="Step back one frame"
+          style={buttonStyle(true)}
+        >
+          ◀
+        </button>
+        <button
+          onClick={() => setReplayPlaying(!playing)}
+          title={playing ? 'Pause' : 'Play'}
+          style={buttonStyle(true, '#8b5cf6')}
+        >
+          {playing ? '⏸' : '▶'}
+        </button>
+        <button
+          onClick={() => stepFrame(1)}
+          title="Step forward one frame"
+          style={buttonStyle(true)}
+        >
+          ▶|
+        </button>
+        <button
+          onClick={() => jumpToThrow(currentThrow + 1)}
+          title="Next throw"
+          style={buttonStyle(true)}
+        >
+          ⏭
+        </button>
+      </div>
+
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+        <label style={{ color: '#aaa', fontSize: '12px' }}>Jump to</label>
+        <select
+          value={currentThrow}
+          onChange={(e) => jumpToThrow(Number(e.target.value))}
+          style={{
+            flex: 1,
+            padding: '4px',
+            backgroundColor: '#1a1a2e',
+            color: '#fff',
+            border: '1px solid #4a4a6a',
+            borderRadius: '4px',
+            fontSize: '12px',
+          }}
+        >
+          {timeline.recording.throws.map((t, i) => (
+            <option key={i} value={i}>
+              Throw {i + 1} · P{t.playerId} · {t.throwAngle.toFixed(0)}° /{' '}
+              {(t.throwPower * 100).toFixed(0)}%
+            </option>
+          ))}
+        </select>
+        <button onClick={stopReplay} style={{ ...buttonStyle(true, '#ef4444'), flex: 'none' }}>
+          Exit
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,74 @@
-import { useGameStore } from '../store';
+import { useEffect } from 'react';
+import { canRewind, useGameStore } from '../store';
+import { describeMatchProgress } from '../match';
+import { findPlayer, getPlayerLabel, getSides, hasTeams } from '../players';
+import { TEAMS } from '../types';
+import { getCurrentHammer } from '../scoring';
+
+const MAX_CLOCK_TICK_MS = 2000;
 
 export function Scoreboard() {
-  const players = useGameStore((state) => state.players);
+  const livePlayers = useGameStore((state) => state.players);
   const currentPlayerId = useGameStore((state) => state.currentPlayerId);
   const phase = useGameStore((state) => state.phase);
-  const eventLog = useGameStore((state) => state.eventLog);
+  const liveEventLog = useGameStore((state) => state.eventLog);
+  const replay = useGameStore((state) => state.replay);
+  const config = useGameStore((state) => state.config);
+  const throwHistory = useGameStore((state) => state.throwHistory);
+  const matchClockMs = useGameStore((state) => state.matchClockMs);
+  const matchResult = useGameStore((state) => state.matchResult);
+  const endResults = useGameStore((state) => state.endResults);
+  const hammerPlayerId = useGameStore((state) => state.hammerPlayerId);
+  const turnOrder = useGameStore((state) => state.turnOrder);
+  const history = useGameStore((state) => state.history);
+  const settled = useGameStore(canRewind);
+  const rewindToEvent = useGameStore((state) => state.rewindToEvent);
+  const tickMatchClock = useGameStore((state) => state.tickMatchClock);
+
+  // Run a timed match's clock once a second while the page is open. A long
+  // gap (a suspended laptop) counts as a couple of seconds at most.
+  const isTimed = config.matchMode === 'timed' && phase !== 'matchOver' && !replay;
+  useEffect(() => {
+    if (!isTimed) return;
+    let last = Date.now();
+    const timer = setInterval(() => {
+      const now = Date.now();
+      tickMatchClock(Math.min(now - last, MAX_CLOCK_TICK_MS));
+      last = now;
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [isTimed, tickMatchClock]);
+
+  const matchProgress =
+    phase === 'matchOver'
+      ? matchResult?.reason ?? null
+      : describeMatchProgress(config, throwHistory.length, livePlayers.length, matchClockMs);
+
+  // While replaying, show the replayed match as of the current frame
+  const replayFrame = replay ? replay.timeline.frames[replay.frame] : null;
+  const players = replayFrame ? replayFrame.players : livePlayers;
+  const eventLog = replay ? replay.timeline.eventLog : liveEventLog;
+  const highlightedEventId =
+    replay && replayFrame
+      ? replay.timeline.throwEventIds[replayFrame.throwIndex]
+      : null;
+
+  // Live log entries rewind the board to just before their throw
+  const rewindable = new Set(
+    !replay && settled
+      ? history.past.flatMap((snapshot) => liveEventLog[snapshot.eventLog.length]?.id ?? [])
+      : []
+  );
+
+  // Curling end-by-end table (live match only)
+  const showEnds = config.matchMode === 'curling' && !replay;
+  const currentHammer = getCurrentHammer(turnOrder, hammerPlayerId);
+  const endNumbers = Array.from({ length: config.frameCount }, (_, i) => i);
+  const cellStyle: React.CSSProperties = {
+    padding: '3px 4px',
+    textAlign: 'center',
+    borderBottom: '1px solid #3a3a5a',
+  };
 
   return (
     <div
@@ -23,6 +87,13 @@ export function Scoreboard() {
         Scoreboard
       </h3>
 
+      {/* Match rules progress */}
+      {matchProgress && !replay && (
+        <div style={{ textAlign: 'center', color: '#aaa', fontSize: '12px' }}>
+          {matchProgress}
+        </div>
+      )}
+
       {/* Player Scores */}
       <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
         {players.map((player) => (
@@ -53,7 +124,13 @@ export function Scoreboard() {
               />
               <span style={{ color: '#fff', fontWeight: 'bold' }}>
                 {player.name}
+                {!replay && matchResult?.winnerIds.includes(player.id) && ' 🏆'}
               </span>
+              {player.teamId !== null && (
+                <span style={{ color: '#888', fontSize: '10px' }}>
+                  {TEAMS.find((t) => t.id === player.teamId)?.name}
+                </span>
+              )}
             </div>
             <span
               style={{
@@ -68,6 +145,100 @@ export function Scoreboard() {
         ))}
       </div>
 
+      {/* Team totals (teammates share a score) */}
+      {hasTeams(players) && (
+        <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+          {getSides(players).map((side) => (
+            <div
+              key={side.key}
+              style={{
+                flex: 1,
+                display: 'flex',
+                justifyContent: 'space-between',
+                padding: '6px 10px',
+                backgroundColor: '#1a1a2e',
+                borderRadius: '6px',
+                border: `1px solid ${side.color}`,
+                fontSize: '12px',
+              }}
+            >
+              <span style={{ color: side.color, fontWeight: 'bold' }}>{side.name}</span>
+              <span style={{ color: '#fff', fontWeight: 'bold' }}>{side.score}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Curling ends (● = hammer) */}
+      {showEnds && (
+        <div style={{ overflowX: 'auto' }}>
+          <table
+            style={{
+              width: '100%',
+              borderCollapse: 'collapse',
+              fontSize: '11px',
+              color: '#ddd',
+              backgroundColor: '#1a1a2e',
+              borderRadius: '6px',
+            }}
+          >
+            <thead>
+              <tr style={{ color: '#888' }}>
+                <th style={{ ...cellStyle, textAlign: 'left' }}>End</th>
+                {endNumbers.map((i) => (
+                  <th
+                    key={i}
+                    style={{
+                      ...cellStyle,
+                      color: i === endResults.length && phase !== 'matchOver' ? '#fff' : '#888',
+                    }}
+                  >
+                    {i + 1}
+                  </th>
+                ))}
+                <th style={cellStyle}>Tot</th>
+              </tr>
+            </thead>
+            <tbody>
+              {getSides(players).map((side) => (
+                <tr key={side.key}>
+                  <td
+                    style={{
+                      ...cellStyle,
+                      textAlign: 'left',
+                      color: side.color,
+                      fontWeight: 'bold',
+                    }}
+                  >
+                    {side.name}
+                  </td>
+                  {endNumbers.map((i) => {
+                    const end = endResults[i];
+                    const hammer = end
+                      ? end.hammerPlayerId
+                      : i === endResults.length
+                        ? currentHammer
+                        : null;
+                    const points = end
+                      ? side.playerIds.reduce((sum, id) => sum + (end.points[id] ?? 0), 0)
+                      : null;
+                    return (
+                      <td key={i} style={cellStyle}>
+                        {points ?? ''}
+                        {hammer !== null && side.playerIds.includes(hammer) && (
+                          <span style={{ color: '#fbbf24' }}> ●</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td style={{ ...cellStyle, fontWeight: 'bold' }}>{side.score}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Phase indicator */}
       <div
         style={{
@@ -87,7 +258,9 @@ export function Scoreboard() {
                   ? '#fbbf24'
                   : phase === 'resolving'
                     ? '#f97316'
-                    : '#3b82f6',
+                    : phase === 'matchOver'
+                      ? '#8b5cf6'
+                      : '#3b82f6',
             fontWeight: 'bold',
           }}
         >
@@ -99,6 +272,12 @@ export function Scoreboard() {
       <div style={{ marginTop: '8px' }}>
         <h4 style={{ margin: '0 0 8px 0', color: '#aaa', fontSize: '14px' }}>
           Event Log
+          {rewindable.size > 0 && (
+            <span style={{ color: '#666', fontSize: '10px', fontWeight: 'normal' }}>
+              {' '}
+              (click to rewind)
+            </span>
+          )}
         </h4>
         <div
           style={{
@@ -117,9 +296,17 @@ export function Scoreboard() {
             [...eventLog].reverse().map((entry) => (
               <div
                 key={entry.id}
+                onClick={rewindable.has(entry.id) ? () => rewindToEvent(entry.id) : undefined}
+                title={rewindable.has(entry.id) ? 'Rewind to before this throw' : undefined}
                 style={{
+                  cursor: rewindable.has(entry.id) ? 'pointer' : 'default',
                   padding: '8px',
-                  backgroundColor: '#1a1a2e',
+                  backgroundColor:
+                    entry.id === highlightedEventId ? '#3b2a6a' : '#1a1a2e',
+                  border:
+                    entry.id === highlightedEventId
+                      ? '1px solid #8b5cf6'
+                      : '1px solid transparent',
                   borderRadius: '4px',
                   fontSize: '11px',
                 }}
@@ -127,33 +314,20 @@ export function Scoreboard() {
                 <div style={{ color: '#ddd', marginBottom: '4px' }}>
                   {entry.text}
                 </div>
-                <div style={{ display: 'flex', gap: '12px' }}>
-                  <span
-                    style={{
-                      color:
-                        entry.deltaP1 > 0
-                          ? '#22c55e'
-                          : entry.deltaP1 < 0
-                            ? '#ef4444'
-                            : '#888',
-                    }}
-                  >
-                    P1: {entry.deltaP1 >= 0 ? '+' : ''}
-                    {entry.deltaP1}
-                  </span>
-                  <span
-                    style={{
-                      color:
-                        entry.deltaP2 > 0
-                          ? '#22c55e'
-                          : entry.deltaP2 < 0
-                            ? '#ef4444'
-                            : '#888',
-                    }}
-                  >
-                    P2: {entry.deltaP2 >= 0 ? '+' : ''}
-                    {entry.deltaP2}
-                  </span>
+                <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+                  {Object.entries(entry.deltas).map(([playerId, delta]) => (
+                    <span
+                      key={playerId}
+                      style={{
+                        color: delta > 0 ? '#22c55e' : delta < 0 ? '#ef4444' : '#888',
+                        fontWeight: Number(playerId) === entry.playerId ? 'bold' : 'normal',
+                      }}
+                    >
+                      {getPlayerLabel(findPlayer(players, Number(playerId)), Number(playerId))}:{' '}
+                      {delta >= 0 ? '+' : ''}
+                      {delta}
+                    </span>
+                  ))}
                 </div>
               </div>
             ))
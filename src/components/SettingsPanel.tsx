@@ -1,4 +1,41 @@
+import { Fragment, useState } from 'react';
 import { useGameStore } from '../store';
+import { createRecording, verifyReplay } from '../replay';
+import type { ReplayVerification } from '../replay';
+import { runCollisionBenchmark } from '../benchmark';
+import type { BenchmarkRow } from '../benchmark';
+import { MAX_PINS_ON_BOARD } from '../engine';
+import type {
+  CollisionModel,
+  MatchMode,
+  Ring,
+  ScoringPresetId,
+  ScoringRules,
+  StandModel,
+  SurfaceKind,
+  SurfacePatch,
+  SurfaceRegion,
+  Wind,
+} from '../types';
+import { SURFACES } from '../environment';
+import {
+  ZONE_TYPE_NAMES,
+  createZoneShape,
+  formatPolygonPoints,
+  getZoneType,
+  parsePolygonPoints,
+  validateRings,
+} from '../zones';
+import type { ZoneType } from '../zones';
+import { SCORING_PRESETS, getScoringRules } from '../scoring';
+import { usesFrames } from '../match';
+
+// Number fields shown for each shaped zone (polygons edit their points as text)
+const ZONE_FIELDS: Record<Exclude<ZoneType, 'annulus' | 'polygon'>, string[]> = {
+  circle: ['x', 'y', 'radius'],
+  ellipse: ['x', 'y', 'radiusX', 'radiusY', 'rotation'],
+  sector: ['x', 'y', 'innerRadius', 'outerRadius', 'startAngle', 'endAngle'],
+};
 
 export function SettingsPanel() {
   const config = useGameStore((state) => state.config);
@@ -7,9 +44,35 @@ export function SettingsPanel() {
   const updateRing = useGameStore((state) => state.updateRing);
   const addRing = useGameStore((state) => state.addRing);
   const removeRing = useGameStore((state) => state.removeRing);
+  const repairRings = useGameStore((state) => state.repairRings);
   const reset = useGameStore((state) => state.reset);
+  const throwHistory = useGameStore((state) => state.throwHistory);
+
+  const [verification, setVerification] = useState<ReplayVerification | null>(null);
+  const [benchmark, setBenchmark] = useState<BenchmarkRow[] | null>(null);
 
   const isIdle = phase === 'idle';
+  const canVerify =
+    (isIdle || phase === 'turnEnd' || phase === 'matchOver') && throwHistory.length > 0;
+
+  // Replay the current match headlessly and compare the final state
+  const handleVerify = () => {
+    const state = useGameStore.getState();
+    setVerification(
+      verifyReplay(createRecording(state), {
+        pins: state.pins,
+        players: state.players,
+        eventLog: state.eventLog,
+      }, state.phase === 'idle')
+    );
+  };
+
+  // Time the grid broad-phase against brute force on stress boards
+  const handleBenchmark = () => {
+    setBenchmark(
+      runCollisionBenchmark(config, { pinCounts: [50, 100, MAX_PINS_ON_BOARD], steps: 30 })
+    );
+  };
 
   const handleNumberChange = (
     key: keyof typeof config,
@@ -24,10 +87,70 @@ export function SettingsPanel() {
     updateConfig({ [key]: num });
   };
 
+  const updateWind = (key: keyof Wind, value: string, min: number, max: number) => {
+    const num = parseFloat(value);
+    if (isNaN(num)) return;
+    updateConfig({ wind: { ...config.wind, [key]: Math.max(min, Math.min(max, num)) } });
+  };
+
+  const updateSurface = (index: number, patch: Partial<SurfacePatch>) => {
+    updateConfig({
+      surfaces: config.surfaces.map((s, i) => (i === index ? { ...s, ...patch } : s)),
+    });
+  };
+
+  // New patches start as sand: a whole ring, or a circle in the board's center
+  const addSurface = (type: SurfaceRegion['type']) => {
+    const center = config.canvasSize / 2;
+    const region: SurfaceRegion =
+      type === 'ring'
+        ? { type: 'ring', ringIndex: 0 }
+        : { type: 'circle', x: center, y: center, radius: 40 };
+    updateConfig({
+      surfaces: [...config.surfaces, { kind: 'sand', friction: SURFACES.sand.friction, region }],
+    });
+  };
+
+  const ringIssues = validateRings(config.rings);
+  const ringErrors = ringIssues.filter((issue) => issue.severity === 'error').length;
+
+  const updateZoneShape = (index: number, ring: Ring, field: string, value: string) => {
+    const num = parseFloat(value);
+    if (isNaN(num) || !ring.shape) return;
+    updateRing(index, { shape: { ...ring.shape, [field]: num } });
+  };
+
   const handleBooleanChange = (key: keyof typeof config, value: boolean) => {
     updateConfig({ [key]: value });
   };
 
+  // Editing any rule turns the preset into a custom rule set
+  const rules = getScoringRules(config);
+  const updateRules = (patch: Partial<ScoringRules>) => {
+    updateConfig({ scoringRules: { ...rules, ...patch, preset: 'custom' } });
+  };
+  const ruleInput = (
+    label: string,
+    value: number,
+    patch: (num: number) => Partial<ScoringRules>,
+    title?: string
+  ) => (
+    <div>
+      <label style={labelStyle}>{label}</label>
+      <input
+        type="number"
+        value={value}
+        onChange={(e) => {
+          const num = parseFloat(e.target.value);
+          if (!isNaN(num)) updateRules(patch(Math.max(0, num)));
+        }}
+        disabled={!isIdle}
+        style={inputStyle}
+        title={title}
+      />
+    </div>
+  );
+
   const inputStyle: React.CSSProperties = {
     width: '60px',
     padding: '4px 6px',
@@ -101,8 +224,250 @@ export function SettingsPanel() {
             Randomize
           </button>
         </div>
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '6px' }}>
+          <button
+            onClick={handleVerify}
+            disabled={!canVerify}
+            style={{
+              padding: '4px 8px',
+              backgroundColor: canVerify ? '#4a4a6a' : '#333',
+              color: '#fff',
+              border: 'none',
+              borderRadius: '4px',
+              fontSize: '10px',
+              cursor: canVerify ? 'pointer' : 'not-allowed',
+            }}
+          >
+            Verify Replay
+          </button>
+          {verification && (
+            <span
+              style={{
+                color: verification.ok ? '#22c55e' : '#ef4444',
+                fontSize: '10px',
+              }}
+            >
+              {verification.ok ? 'Identical' : `${verification.mismatches.length} mismatch(es)`}
+            </span>
+          )}
+        </div>
+        {verification && !verification.ok && (
+          <div style={{ marginTop: '4px', color: '#ef4444', fontSize: '10px' }}>
+            {verification.mismatches.map((m, i) => (
+              <div key={i}>{m}</div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Match Rules */}
+      <div style={sectionStyle}>
+        <label style={{ ...labelStyle, fontWeight: 'bold', marginBottom: '8px' }}>
+          Match Rules
+        </label>
+        <select
+          value={config.matchMode}
+          onChange={(e) => updateConfig({ matchMode: e.target.value as MatchMode })}
+          disabled={!isIdle}
+          style={{ ...inputStyle, width: '100%', marginBottom: '8px' }}
+        >
+          <option value="endless">Endless</option>
+          <option value="targetScore">Target score</option>
+          <option value="throwLimit">Fixed throws per player</option>
+          <option value="timed">Timed</option>
+          <option value="frames">Frames (board cleared)</option>
+          <option value="curling">Curling ends (closest pins)</option>
+        </select>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+          {config.matchMode === 'targetScore' && (
+            <div>
+              <label style={labelStyle}>Target Score</label>
+              <input
+                type="number"
+                value={config.targetScore}
+                onChange={(e) => handleNumberChange('targetScore', e.target.value, 1)}
+                disabled={!isIdle}
+                style={inputStyle}
+              />
+            </div>
+          )}
+          {(config.matchMode === 'throwLimit' || usesFrames(config)) && (
+            <div>
+              <label style={labelStyle}>
+                {config.matchMode === 'frames'
+                  ? 'Throws / Frame'
+                  : config.matchMode === 'curling'
+                    ? 'Throws / End'
+                    : 'Throws / Player'}
+              </label>
+              <input
+                type="number"
+                value={config.throwsPerPlayer}
+                onChange={(e) =>
+                  handleNumberChange('throwsPerPlayer', e.target.value, 1, 50)
+                }
+                disabled={!isIdle}
+                style={inputStyle}
+              />
+            </div>
+          )}
+          {usesFrames(config) && (
+            <div>
+              <label style={labelStyle}>
+                {config.matchMode === 'curling' ? 'Ends' : 'Frames'}
+              </label>
+              <input
+                type="number"
+                value={config.frameCount}
+                onChange={(e) => handleNumberChange('frameCount', e.target.value, 1, 20)}
+                disabled={!isIdle}
+                style={inputStyle}
+              />
+            </div>
+          )}
+          {config.matchMode === 'timed' && (
+            <div>
+              <label style={labelStyle}>Time Limit (s)</label>
+              <input
+                type="number"
+                value={config.timeLimitSec}
+                onChange={(e) =>
+                  handleNumberChange('timeLimitSec', e.target.value, 10, 3600)
+                }
+                disabled={!isIdle}
+                style={inputStyle}
+              />
+            </div>
+          )}
+        </div>
       </div>
 
+      {/* Scoring Rules */}
+      {config.matchMode === 'curling' ? (
+        <div style={sectionStyle}>
+          <label style={{ ...labelStyle, fontWeight: 'bold', marginBottom: '4px' }}>
+            Scoring Rules
+          </label>
+          <div style={{ color: '#666', fontSize: '10px' }}>
+            Curling: throws score nothing; each end the side with the closest pin scores
+            one point per pin closer than the opponents' best
+          </div>
+        </div>
+      ) : (
+        <div style={sectionStyle}>
+          <label style={{ ...labelStyle, fontWeight: 'bold', marginBottom: '8px' }}>
+            Scoring Rules
+          </label>
+          <select
+            value={rules.preset}
+            onChange={(e) => {
+              const preset = e.target.value as ScoringPresetId;
+              if (preset !== 'custom') updateConfig({ scoringRules: SCORING_PRESETS[preset].rules });
+            }}
+            disabled={!isIdle}
+            style={{ ...inputStyle, width: '100%', marginBottom: '4px' }}
+          >
+            {(Object.keys(SCORING_PRESETS) as (keyof typeof SCORING_PRESETS)[]).map((id) => (
+              <option key={id} value={id}>
+                {SCORING_PRESETS[id].name}
+              </option>
+            ))}
+            {rules.preset === 'custom' && <option value="custom">Custom</option>}
+          </select>
+          <div style={{ color: '#666', fontSize: '10px', marginBottom: '8px' }}>
+            {rules.preset === 'custom'
+              ? 'Edited rules'
+              : SCORING_PRESETS[rules.preset].description}
+          </div>
+
+          <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+            {ruleInput('Land Standing ×', rules.landing.standing, (standing) => ({
+              landing: { ...rules.landing, standing },
+            }))}
+            {ruleInput('Land Fallen ×', rules.landing.fallen, (fallen) => ({
+              landing: { ...rules.landing, fallen },
+            }))}
+            {ruleInput(
+              'Knock Bonus ×',
+              rules.knock.bonusStanding,
+              (bonusStanding) => ({ knock: { ...rules.knock, bonusStanding } }),
+              'When the thrown pin stands'
+            )}
+            {ruleInput('Bonus if Fallen ×', rules.knock.bonusFallen, (bonusFallen) => ({
+              knock: { ...rules.knock, bonusFallen },
+            }))}
+            {ruleInput('Knocked Loss ×', rules.knock.loss, (loss) => ({
+              knock: { ...rules.knock, loss },
+            }))}
+            {ruleInput(
+              'Collision Penalty',
+              rules.penalties.perCollision,
+              (perCollision) => ({ penalties: { ...rules.penalties, perCollision } }),
+              'Points lost per collision of the thrown pin'
+            )}
+            {config.liveBoardScoring && (
+              <>
+                {ruleInput('Pushed Standing ×', rules.displacement.standing, (standing) => ({
+                  displacement: { ...rules.displacement, standing },
+                }))}
+                {ruleInput('Pushed Fallen ×', rules.displacement.fallen, (fallen) => ({
+                  displacement: { ...rules.displacement, fallen },
+                }))}
+              </>
+            )}
+            <div>
+              <label style={labelStyle}>Outside Points</label>
+              <input
+                type="number"
+                value={rules.outsidePoints ?? ''}
+                placeholder={`${config.outsideScore}`}
+                onChange={(e) =>
+                  updateRules({
+                    outsidePoints: e.target.value === '' ? null : parseFloat(e.target.value) || 0,
+                  })
+                }
+                disabled={!isIdle}
+                style={inputStyle}
+                title="Empty = use the ring settings' outside score"
+              />
+            </div>
+            {rules.endScoring === 'closestToCenter' &&
+              ruleInput('End Win Points', rules.endPoints, (endPoints) => ({ endPoints }))}
+          </div>
+
+          <div style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '4px' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <input
+                type="checkbox"
+                checked={rules.penalties.allowLosses}
+                onChange={(e) =>
+                  updateRules({ penalties: { ...rules.penalties, allowLosses: e.target.checked } })
+                }
+                disabled={!isIdle}
+              />
+              <span style={{ color: '#ccc', fontSize: '11px' }}>Allow score losses</span>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <input
+                type="checkbox"
+                checked={rules.endScoring === 'closestToCenter'}
+                onChange={(e) =>
+                  updateRules({
+                    endScoring: e.target.checked ? 'closestToCenter' : 'none',
+                    endPoints: e.target.checked && rules.endPoints === 0 ? 1 : rules.endPoints,
+                  })
+                }
+                disabled={!isIdle}
+              />
+              <span style={{ color: '#ccc', fontSize: '11px' }}>
+                Closest pin wins each end
+              </span>
+            </label>
+          </div>
+        </div>
+      )}
+
       {/* Rings */}
       <div style={sectionStyle}>
         <div
@@ -114,8 +479,28 @@ export function SettingsPanel() {
           }}
         >
           <label style={{ ...labelStyle, marginBottom: 0 }}>
-            Rings ({config.rings.length})
+            Scoring Zones ({config.rings.length})
           </label>
+          {ringErrors > 0 && (
+            <button
+              onClick={repairRings}
+              disabled={!isIdle}
+              title="Sort the rings and close gaps and overlaps"
+              style={{
+                marginLeft: 'auto',
+                marginRight: '4px',
+                padding: '2px 8px',
+                backgroundColor: isIdle ? '#f59e0b' : '#333',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                fontSize: '10px',
+                cursor: isIdle ? 'pointer' : 'not-allowed',
+              }}
+            >
+              Auto-fix
+            </button>
+          )}
           <button
             onClick={addRing}
             disabled={!isIdle}
@@ -134,76 +519,179 @@ export function SettingsPanel() {
         </div>
 
         {config.rings.map((ring, idx) => (
-          <div
-            key={idx}
-            style={{
-              display: 'flex',
-              gap: '4px',
-              alignItems: 'center',
-              marginBottom: '6px',
-              padding: '6px',
-              backgroundColor: '#1a1a2e',
-              borderRadius: '4px',
-            }}
-          >
-            <span style={{ color: '#888', fontSize: '10px', width: '20px' }}>
-              #{idx + 1}
-            </span>
-            <div style={{ flex: 1 }}>
-              <div style={{ display: 'flex', gap: '4px', marginBottom: '2px' }}>
-                <input
-                  type="number"
-                  value={ring.innerRadius}
-                  onChange={(e) =>
-                    updateRing(idx, { innerRadius: parseFloat(e.target.value) || 0 })
-                  }
-                  disabled={!isIdle}
-                  style={{ ...inputStyle, width: '40px' }}
-                  title="Inner radius"
-                />
-                <span style={{ color: '#666' }}>-</span>
-                <input
-                  type="number"
-                  value={ring.outerRadius}
-                  onChange={(e) =>
-                    updateRing(idx, { outerRadius: parseFloat(e.target.value) || 0 })
-                  }
-                  disabled={!isIdle}
-                  style={{ ...inputStyle, width: '40px' }}
-                  title="Outer radius"
-                />
-                <input
-                  type="number"
-                  value={ring.points}
-                  onChange={(e) =>
-                    updateRing(idx, { points: parseInt(e.target.value) || 0 })
-                  }
-                  disabled={!isIdle}
-                  style={{ ...inputStyle, width: '30px' }}
-                  title="Points"
-                />
-                <span style={{ color: '#888', fontSize: '10px' }}>pts</span>
+          <Fragment key={idx}>
+            <div
+              style={{
+                display: 'flex',
+                gap: '4px',
+                alignItems: 'center',
+                marginBottom: '6px',
+                padding: '6px',
+                backgroundColor: '#1a1a2e',
+                borderRadius: '4px',
+              }}
+            >
+              <span style={{ color: '#888', fontSize: '10px', width: '20px' }}>
+                #{idx + 1}
+              </span>
+              <div style={{ flex: 1 }}>
+                <div style={{ display: 'flex', gap: '4px', marginBottom: '2px' }}>
+                  <select
+                    value={getZoneType(ring)}
+                    onChange={(e) =>
+                      updateRing(idx, {
+                        shape: createZoneShape(e.target.value as ZoneType, ring, config),
+                      })
+                    }
+                    disabled={!isIdle}
+                    style={{ ...inputStyle, width: '70px' }}
+                  >
+                    {(Object.keys(ZONE_TYPE_NAMES) as ZoneType[]).map((type) => (
+                      <option key={type} value={type}>
+                        {ZONE_TYPE_NAMES[type]}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    value={ring.points}
+                    onChange={(e) =>
+                      updateRing(idx, { points: parseInt(e.target.value) || 0 })
+                    }
+                    disabled={!isIdle}
+                    style={{ ...inputStyle, width: '30px' }}
+                    title="Points"
+                  />
+                  <span style={{ color: '#888', fontSize: '10px' }}>pts</span>
+                </div>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginBottom: '2px' }}>
+                  {!ring.shape && (
+                    <>
+                      <input
+                        type="number"
+                        value={ring.innerRadius}
+                        onChange={(e) =>
+                          updateRing(idx, { innerRadius: parseFloat(e.target.value) || 0 })
+                        }
+                        disabled={!isIdle}
+                        style={{ ...inputStyle, width: '40px' }}
+                        title="Inner radius"
+                      />
+                      <span style={{ color: '#666' }}>-</span>
+                      <input
+                        type="number"
+                        value={ring.outerRadius}
+                        onChange={(e) =>
+                          updateRing(idx, { outerRadius: parseFloat(e.target.value) || 0 })
+                        }
+                        disabled={!isIdle}
+                        style={{ ...inputStyle, width: '40px' }}
+                        title="Outer radius"
+                      />
+                    </>
+                  )}
+                  {ring.shape?.type === 'polygon' && (
+                    <input
+                      key={formatPolygonPoints(ring.shape.points)}
+                      type="text"
+                      defaultValue={formatPolygonPoints(ring.shape.points)}
+                      onBlur={(e) => {
+                        const points = parsePolygonPoints(e.target.value);
+                        if (points && points.length >= 3) {
+                          updateRing(idx, { shape: { type: 'polygon', points } });
+                        } else {
+                          e.target.value = formatPolygonPoints(
+                            ring.shape?.type === 'polygon' ? ring.shape.points : []
+                          );
+                        }
+                      }}
+                      disabled={!isIdle}
+                      style={{ ...inputStyle, width: '100%' }}
+                      title="Corners as x,y pairs separated by spaces"
+                    />
+                  )}
+                  {ring.shape &&
+                    ring.shape.type !== 'polygon' &&
+                    ZONE_FIELDS[ring.shape.type].map((field) => (
+                      <input
+                        key={field}
+                        type="number"
+                        value={(ring.shape as unknown as Record<string, number>)[field]}
+                        onChange={(e) => updateZoneShape(idx, ring, field, e.target.value)}
+                        disabled={!isIdle}
+                        style={{ ...inputStyle, width: '40px' }}
+                        title={field}
+                      />
+                    ))}
+                </div>
+                <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+                  <span style={{ color: '#888', fontSize: '10px' }}>bonus</span>
+                  <input
+                    type="number"
+                    value={ring.standBonus === undefined ? '' : Math.round(ring.standBonus * 100)}
+                    placeholder="auto"
+                    onChange={(e) =>
+                      updateRing(idx, {
+                        standBonus:
+                          e.target.value === '' ? undefined : (parseFloat(e.target.value) || 0) / 100,
+                      })
+                    }
+                    disabled={!isIdle}
+                    style={{ ...inputStyle, width: '36px' }}
+                    title="Stand bonus in %, blank for the usual ring bonus"
+                  />
+                  <span style={{ color: '#888', fontSize: '10px' }}>% prio</span>
+                  <input
+                    type="number"
+                    value={ring.priority ?? 0}
+                    onChange={(e) =>
+                      updateRing(idx, { priority: parseInt(e.target.value) || 0 })
+                    }
+                    disabled={!isIdle}
+                    style={{ ...inputStyle, width: '30px' }}
+                    title="Where zones overlap, the highest priority scores"
+                  />
+                </div>
               </div>
+              {config.rings.length > 1 && (
+                <button
+                  onClick={() => removeRing(idx)}
+                  disabled={!isIdle}
+                  style={{
+                    padding: '2px 6px',
+                    backgroundColor: isIdle ? '#ef4444' : '#333',
+                    color: '#fff',
+                    border: 'none',
+                    borderRadius: '4px',
+                    fontSize: '10px',
+                    cursor: isIdle ? 'pointer' : 'not-allowed',
+                  }}
+                >
+                  X
+                </button>
+              )}
             </div>
-            {config.rings.length > 1 && (
-              <button
-                onClick={() => removeRing(idx)}
-                disabled={!isIdle}
-                style={{
-                  padding: '2px 6px',
-                  backgroundColor: isIdle ? '#ef4444' : '#333',
-                  color: '#fff',
-                  border: 'none',
-                  borderRadius: '4px',
-                  fontSize: '10px',
-                  cursor: isIdle ? 'pointer' : 'not-allowed',
-                }}
-              >
-                X
-              </button>
-            )}
-          </div>
+            {ringIssues
+              .filter((issue) => issue.ringIndex === idx)
+              .map((issue) => (
+                <div
+                  key={issue.kind}
+                  style={{
+                    color: issue.severity === 'error' ? '#ef4444' : '#f59e0b',
+                    fontSize: '10px',
+                    margin: '-4px 0 6px 26px',
+                  }}
+                >
+                  {issue.message}
+                </div>
+              ))}
+          </Fragment>
         ))}
+        {ringErrors > 0 && (
+          <div style={{ color: '#ef4444', fontSize: '11px', marginBottom: '4px' }}>
+            Fix the rings before throwing
+          </div>
+        )}
 
         <div style={{ marginTop: '4px' }}>
           <label style={labelStyle}>Outside Score</label>
@@ -215,6 +703,17 @@ export function SettingsPanel() {
             style={inputStyle}
           />
         </div>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '8px' }}>
+          <input
+            type="checkbox"
+            checked={config.liveBoardScoring}
+            onChange={(e) => handleBooleanChange('liveBoardScoring', e.target.checked)}
+            disabled={!isIdle}
+          />
+          <span style={{ color: '#ccc', fontSize: '11px' }}>
+            Live Board (re-score pins pushed to another ring)
+          </span>
+        </label>
       </div>
 
       {/* Physics */}
@@ -276,13 +775,89 @@ export function SettingsPanel() {
               type="number"
               value={config.maxPinsOnBoard}
               onChange={(e) =>
-                handleNumberChange('maxPinsOnBoard', e.target.value, 1, 50)
+                handleNumberChange('maxPinsOnBoard', e.target.value, 1, MAX_PINS_ON_BOARD)
               }
               disabled={!isIdle}
               style={inputStyle}
             />
           </div>
+          <div style={{ gridColumn: '1 / -1' }}>
+            <label style={labelStyle}>Collisions</label>
+            <select
+              value={config.collisionModel}
+              onChange={(e) => updateConfig({ collisionModel: e.target.value as CollisionModel })}
+              disabled={!isIdle}
+              style={{ ...inputStyle, width: '100%' }}
+            >
+              <option value="pairwise">Pairwise (order-independent)</option>
+              <option value="legacy">Legacy (old saves and replays)</option>
+            </select>
+          </div>
+          <div style={{ gridColumn: '1 / -1' }}>
+            <label style={labelStyle}>Stand / Fall</label>
+            <select
+              value={config.standModel}
+              onChange={(e) => updateConfig({ standModel: e.target.value as StandModel })}
+              disabled={!isIdle}
+              style={{ ...inputStyle, width: '100%' }}
+            >
+              <option value="probability">Probability (dice rolls)</option>
+              <option value="tipOver">Tip-over physics</option>
+            </select>
+          </div>
+          <div>
+            <label style={labelStyle}>Pin Bounce</label>
+            <input
+              type="number"
+              step="0.1"
+              value={config.restitution}
+              onChange={(e) => handleNumberChange('restitution', e.target.value, 0, 1)}
+              disabled={!isIdle || config.collisionModel === 'legacy'}
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label style={labelStyle}>Pin Mass</label>
+            <input
+              type="number"
+              step="0.1"
+              value={config.pinMass}
+              onChange={(e) => handleNumberChange('pinMass', e.target.value, 0.1, 10)}
+              disabled={!isIdle || config.collisionModel === 'legacy'}
+              title="Mass of pins thrown from now on"
+              style={inputStyle}
+            />
+          </div>
+        </div>
+        <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '8px' }}>
+          <button
+            onClick={handleBenchmark}
+            disabled={!isIdle}
+            style={{
+              padding: '4px 8px',
+              backgroundColor: isIdle ? '#4a4a6a' : '#333',
+              color: '#fff',
+              border: 'none',
+              borderRadius: '4px',
+              fontSize: '10px',
+              cursor: isIdle ? 'pointer' : 'not-allowed',
+            }}
+          >
+            Benchmark Collisions
+          </button>
+          <span style={{ color: '#666', fontSize: '10px' }}>ms per step, brute force vs grid</span>
         </div>
+        {benchmark && (
+          <div style={{ marginTop: '4px', fontSize: '10px', color: '#aaa' }}>
+            {benchmark.map((row) => (
+              <div key={row.pinCount}>
+                {row.pinCount} pins: {row.bruteForceMs.toFixed(2)} vs {row.gridMs.toFixed(2)}
+                {' '}({row.speedup.toFixed(1)}x)
+                {!row.identical && <span style={{ color: '#ef4444' }}> results differ</span>}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* 3D Physics */}
@@ -344,11 +919,184 @@ export function SettingsPanel() {
         </div>
       </div>
 
+      {/* Environment */}
+      <div style={sectionStyle}>
+        <label style={{ ...labelStyle, fontWeight: 'bold', marginBottom: '8px', color: '#7dd3fc' }}>
+          Environment
+        </label>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
+          <div>
+            <label style={labelStyle}>Air Drag</label>
+            <input
+              type="number"
+              step="0.001"
+              value={config.airDrag}
+              onChange={(e) => handleNumberChange('airDrag', e.target.value, 0.9, 1)}
+              disabled={!isIdle}
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label style={labelStyle}>Wind Speed</label>
+            <input
+              type="number"
+              step="0.005"
+              value={config.wind.speed}
+              onChange={(e) => updateWind('speed', e.target.value, 0, 0.2)}
+              disabled={!isIdle}
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label style={labelStyle}>Wind Direction</label>
+            <input
+              type="number"
+              step="15"
+              value={config.wind.direction}
+              onChange={(e) => updateWind('direction', e.target.value, 0, 360)}
+              disabled={!isIdle}
+              title="Degrees it blows toward: 0 = up, 90 = right"
+              style={inputStyle}
+            />
+          </div>
+          <div>
+            <label style={labelStyle}>Gustiness</label>
+            <input
+              type="number"
+              step="0.1"
+              value={config.wind.gustiness}
+              onChange={(e) => updateWind('gustiness', e.target.value, 0, 1)}
+              disabled={!isIdle}
+              style={inputStyle}
+            />
+          </div>
+        </div>
+
+        <label style={{ ...labelStyle, marginTop: '8px' }}>Surfaces</label>
+        {config.surfaces.map((patch, index) => (
+          <div
+            key={index}
+            style={{ display: 'flex', gap: '4px', alignItems: 'center', marginBottom: '4px' }}
+          >
+            <select
+              value={patch.kind}
+              onChange={(e) => {
+                const kind = e.target.value as SurfaceKind;
+                updateSurface(index, { kind, friction: SURFACES[kind].friction });
+              }}
+              disabled={!isIdle}
+              style={{ ...inputStyle, width: '64px' }}
+            >
+              {(Object.keys(SURFACES) as SurfaceKind[]).map((kind) => (
+                <option key={kind} value={kind}>
+                  {SURFACES[kind].name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              step="0.005"
+              value={patch.friction}
+              onChange={(e) => {
+                const friction = parseFloat(e.target.value);
+                if (!isNaN(friction)) {
+                  updateSurface(index, { friction: Math.max(0.5, Math.min(1, friction)) });
+                }
+              }}
+              disabled={!isIdle}
+              title="Friction"
+              style={{ ...inputStyle, width: '52px' }}
+            />
+            {patch.region.type === 'ring' ? (
+              <select
+                value={patch.region.ringIndex}
+                onChange={(e) =>
+                  updateSurface(index, {
+                    region: { type: 'ring', ringIndex: Number(e.target.value) },
+                  })
+                }
+                disabled={!isIdle}
+                style={{ ...inputStyle, width: '64px' }}
+              >
+                {config.rings.map((_, ringIndex) => (
+                  <option key={ringIndex} value={ringIndex}>
+                    Ring {ringIndex + 1}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              (['x', 'y', 'radius'] as const).map((key) => {
+                const region = patch.region as Extract<SurfaceRegion, { type: 'circle' }>;
+                return (
+                  <input
+                    key={key}
+                    type="number"
+                    value={region[key]}
+                    onChange={(e) => {
+                      const value = parseFloat(e.target.value);
+                      if (!isNaN(value)) {
+                        updateSurface(index, { region: { ...region, [key]: Math.max(0, value) } });
+                      }
+                    }}
+                    disabled={!isIdle}
+                    title={key}
+                    style={{ ...inputStyle, width: '40px' }}
+                  />
+                );
+              })
+            )}
+            <button
+              onClick={() =>
+                updateConfig({ surfaces: config.surfaces.filter((_, i) => i !== index) })
+              }
+              disabled={!isIdle}
+              style={{
+                padding: '2px 6px',
+                backgroundColor: '#333',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                fontSize: '10px',
+                cursor: isIdle ? 'pointer' : 'not-allowed',
+              }}
+            >
+              ×
+            </button>
+          </div>
+        ))}
+        <div style={{ display: 'flex', gap: '8px' }}>
+          {(['ring', 'circle'] as const).map((type) => (
+            <button
+              key={type}
+              onClick={() => addSurface(type)}
+              disabled={!isIdle}
+              style={{
+                padding: '4px 8px',
+                backgroundColor: isIdle ? '#4a4a6a' : '#333',
+                color: '#fff',
+                border: 'none',
+                borderRadius: '4px',
+                fontSize: '10px',
+                cursor: isIdle ? 'pointer' : 'not-allowed',
+              }}
+            >
+              + {type === 'ring' ? 'Ring' : 'Circle'} patch
+            </button>
+          ))}
+        </div>
+      </div>
+
       {/* Probabilities */}
       <div style={sectionStyle}>
         <label style={{ ...labelStyle, fontWeight: 'bold', marginBottom: '8px' }}>
           Probabilities
         </label>
+        {config.standModel === 'tipOver' && (
+          <div style={{ color: '#666', fontSize: '10px', marginBottom: '8px' }}>
+            Tip-over physics decides stand and fall; these rolls are not used
+          </div>
+        )}
 
         <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '8px' }}>
           <div>
@@ -419,6 +1167,34 @@ export function SettingsPanel() {
               Collision Penalty (-15% stand per hit)
             </span>
           </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <input
+              type="checkbox"
+              checked={config.chainKnocksEnabled}
+              onChange={(e) =>
+                handleBooleanChange('chainKnocksEnabled', e.target.checked)
+              }
+              disabled={!isIdle}
+            />
+            <span style={{ color: '#ccc', fontSize: '11px' }}>
+              Chain Knocks (moved pins knock pins too)
+            </span>
+          </label>
+          {config.chainKnocksEnabled && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginLeft: '22px' }}>
+              <label style={{ ...labelStyle, marginBottom: 0 }}>Bonus Decay / Gen</label>
+              <input
+                type="number"
+                step="0.1"
+                value={config.chainKnockDecay}
+                onChange={(e) =>
+                  handleNumberChange('chainKnockDecay', e.target.value, 0, 1)
+                }
+                disabled={!isIdle}
+                style={inputStyle}
+              />
+            </div>
+          )}
         </div>
       </div>
 
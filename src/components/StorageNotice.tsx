@@ -0,0 +1,43 @@
+import { useGameStore } from '../store';
+
+// Tells the player when saving to or loading from this browser failed
+export function StorageNotice() {
+  const storageError = useGameStore((state) => state.storageError);
+  const setStorageError = useGameStore((state) => state.setStorageError);
+
+  if (!storageError) return null;
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        maxWidth: '600px',
+        margin: '0 auto 16px',
+        padding: '8px 12px',
+        backgroundColor: '#2a2a4a',
+        border: '1px solid #ef4444',
+        borderRadius: '6px',
+        color: '#ef4444',
+        fontSize: '12px',
+      }}
+    >
+      <span style={{ flex: 1 }}>{storageError}</span>
+      <button
+        onClick={() => setStorageError(null)}
+        title="Dismiss"
+        style={{
+          padding: '2px 8px',
+          backgroundColor: '#4a4a6a',
+          color: '#fff',
+          border: 'none',
+          borderRadius: '4px',
+          cursor: 'pointer',
+        }}
+      >
+        ×
+      </button>
+    </div>
+  );
+}
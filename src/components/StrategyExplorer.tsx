@@ -0,0 +1,267 @@
+import { useEffect, useRef, useState } from 'react';
+import { generatePinId, useGameStore } from '../store';
+import { findPlayer } from '../players';
+import { getBestCell, getHeatColor } from '../explorer';
+import type { ExplorerCell, ExplorerRequest } from '../explorer';
+import type { ExplorerWorkerMessage } from '../workers/explorer.worker';
+
+export function StrategyExplorer() {
+  const workerRef = useRef<Worker | null>(null);
+  const [angleSteps, setAngleSteps] = useState(13);
+  const [powerSteps, setPowerSteps] = useState(10);
+  const [trialsPerCell, setTrialsPerCell] = useState(20);
+  const [sweepPitch, setSweepPitch] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [hovered, setHovered] = useState<ExplorerCell | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const phase = useGameStore((state) => state.phase);
+  const isReplaying = useGameStore((state) => state.replay !== null);
+  const result = useGameStore((state) => state.explorerResult);
+  const showHeatmap = useGameStore((state) => state.showHeatmap);
+  const currentPlayer = useGameStore((state) =>
+    findPlayer(state.players, state.currentPlayerId)
+  );
+
+  const setExplorerResult = useGameStore((state) => state.setExplorerResult);
+  const setShowHeatmap = useGameStore((state) => state.setShowHeatmap);
+  const setThrowParams = useGameStore((state) => state.setThrowParams);
+  const updateConfig = useGameStore((state) => state.updateConfig);
+
+  const isRunning = progress !== null;
+  const canRun = phase === 'idle' && !isReplaying && !isRunning;
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  // Don't leave a sweep running after the panel goes away
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const handleRun = () => {
+    const state = useGameStore.getState();
+    const request: ExplorerRequest = {
+      config: state.config,
+      pins: state.pins,
+      players: state.players,
+      playerId: state.currentPlayerId,
+      pinId: generatePinId(state.config.seed, state.throwHistory.length),
+      seed: state.rng.getState(),
+      angleSteps,
+      powerSteps,
+      pitchSteps: sweepPitch ? 4 : 1,
+      trialsPerCell,
+    };
+
+    const throwCount = state.throwHistory.length;
+    stopWorker();
+    const worker = new Worker(new URL('../workers/explorer.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    worker.onmessage = (event: MessageEvent<ExplorerWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setProgress(message.completed / message.total);
+      } else {
+        // Drop the result if a throw changed the board meanwhile
+        if (useGameStore.getState().throwHistory.length === throwCount) {
+          setExplorerResult(message.result);
+        }
+        stopWorker();
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      stopWorker();
+      setError(event.message || 'the worker failed to run');
+    };
+    worker.onmessageerror = () => {
+      stopWorker();
+      setError("the worker's reply couldn't be read");
+    };
+    workerRef.current = worker;
+    setProgress(0);
+    setError(null);
+    setExplorerResult(null);
+    worker.postMessage(request);
+  };
+
+  // Use a cell's aim for the next throw
+  const applyCell = (cell: ExplorerCell) => {
+    if (phase !== 'idle' || isReplaying) return;
+    setThrowParams(Math.round(cell.angle), Math.round(cell.power * 100) / 100);
+    updateConfig({ throwPitch: Math.round(cell.pitch) });
+  };
+
+  const best = result ? getBestCell(result) : null;
+  const means = result ? result.cells.map((c) => c.mean) : [];
+  const minMean = Math.min(...means);
+  const maxMean = Math.max(...means);
+  const shown = hovered ?? best;
+
+  const inputStyle: React.CSSProperties = {
+    width: '48px',
+    padding: '2px 4px',
+    backgroundColor: '#1a1a2e',
+    border: '1px solid #4a4a6a',
+    borderRadius: '4px',
+    color: '#fff',
+    fontSize: '11px',
+  };
+
+  const buttonStyle = (enabled: boolean, color: string): React.CSSProperties => ({
+    flex: 1,
+    padding: '6px 8px',
+    fontSize: '12px',
+    fontWeight: 'bold',
+    backgroundColor: enabled ? color : '#333',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+  });
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        padding: '16px',
+        backgroundColor: '#2a2a4a',
+        borderRadius: '8px',
+        minWidth: '240px',
+        maxWidth: '280px',
+        fontSize: '12px',
+        color: '#ddd',
+      }}
+    >
+      <h3 style={{ margin: 0, color: '#fff', fontSize: '14px' }}>Strategy Explorer</h3>
+
+      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+        <label>
+          Angles{' '}
+          <input
+            type="number"
+            min={2}
+            max={31}
+            value={angleSteps}
+            onChange={(e) => setAngleSteps(Math.max(2, Math.min(31, Number(e.target.value))))}
+            style={inputStyle}
+          />
+        </label>
+        <label>
+          Powers{' '}
+          <input
+            type="number"
+            min={2}
+            max={20}
+            value={powerSteps}
+            onChange={(e) => setPowerSteps(Math.max(2, Math.min(20, Number(e.target.value))))}
+            style={inputStyle}
+          />
+        </label>
+        <label>
+          Trials{' '}
+          <input
+            type="number"
+            min={1}
+            max={200}
+            value={trialsPerCell}
+            onChange={(e) =>
+              setTrialsPerCell(Math.max(1, Math.min(200, Number(e.target.value))))
+            }
+            style={inputStyle}
+          />
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <input
+            type="checkbox"
+            checked={sweepPitch}
+            onChange={(e) => setSweepPitch(e.target.checked)}
+          />
+          Sweep pitch
+        </label>
+      </div>
+
+      <div style={{ display: 'flex', gap: '8px' }}>
+        {isRunning ? (
+          <button onClick={stopWorker} style={buttonStyle(true, '#ef4444')}>
+            Cancel ({Math.round((progress ?? 0) * 100)}%)
+          </button>
+        ) : (
+          <button onClick={handleRun} disabled={!canRun} style={buttonStyle(canRun, '#3b82f6')}>
+            Explore throws for {currentPlayer?.name ?? 'next player'}
+          </button>
+        )}
+      </div>
+
+      {error && <div style={{ color: '#f59e0b' }}>Exploring failed: {error}</div>}
+
+      {result && (
+        <>
+          {/* Rows are power (strongest at the top), columns are angle */}
+          <div
+            style={{
+              display: 'grid',
+              gridTemplateColumns: `repeat(${result.angles.length}, 1fr)`,
+              gap: '1px',
+            }}
+            onMouseLeave={() => setHovered(null)}
+          >
+            {[...result.powers.keys()].reverse().flatMap((powerIndex) =>
+              result.angles.map((_, angleIndex) => {
+                const cell = result.cells[powerIndex * result.angles.length + angleIndex];
+                return (
+                  <div
+                    key={`${powerIndex}-${angleIndex}`}
+                    onMouseEnter={() => setHovered(cell)}
+                    onClick={() => applyCell(cell)}
+                    style={{
+                      height: '12px',
+                      backgroundColor: getHeatColor(cell.mean, minMean, maxMean),
+                      outline: cell === best ? '2px solid #fff' : 'none',
+                      cursor: 'pointer',
+                    }}
+                  />
+                );
+              })
+            )}
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'space-between', color: '#888', fontSize: '10px' }}>
+            <span>{result.angles[0]}°</span>
+            <span>angle →</span>
+            <span>{result.angles[result.angles.length - 1]}°</span>
+          </div>
+
+          {shown && (
+            <div style={{ padding: '6px', backgroundColor: '#1a1a2e', borderRadius: '4px', fontSize: '11px' }}>
+              <div style={{ color: '#aaa', marginBottom: '2px' }}>
+                {hovered ? 'Cell' : 'Best'}: {shown.angle.toFixed(0)}° · power{' '}
+                {shown.power.toFixed(2)} · pitch {shown.pitch.toFixed(0)}°
+              </div>
+              <div>
+                Mean {shown.mean.toFixed(2)} pts · variance {shown.variance.toFixed(2)}
+              </div>
+              <div>Knock chance {(shown.knockProbability * 100).toFixed(0)}%</div>
+            </div>
+          )}
+
+          <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            <input
+              type="checkbox"
+              checked={showHeatmap}
+              onChange={(e) => setShowHeatmap(e.target.checked)}
+            />
+            Show on board
+          </label>
+          <div style={{ color: '#666', fontSize: '10px' }}>
+            {result.trialsPerCell} trials per cell · click a cell to use its aim
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
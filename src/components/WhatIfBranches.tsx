@@ -0,0 +1,314 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useGameStore } from '../store';
+import { createRecording } from '../replay';
+import { compareBranch, isBranchCurrent } from '../branches';
+import type { LineOutcome } from '../branches';
+import { findPlayer, getPlayerLabel } from '../players';
+import { traceZone } from '../utils/draw';
+import type { GameConfig, WhatIfBranch } from '../types';
+
+const MINI_BOARD_SIZE = 130;
+
+// Stands in for the open branch while none is open
+const NO_BRANCH: WhatIfBranch = {
+  id: '',
+  name: '',
+  throwIndex: -1,
+  rngState: 0,
+  throwAngle: 0,
+  throwPower: 0,
+  throwPitch: 0,
+};
+
+// Small static view of a board, for comparing lines side by side
+function MiniBoard({ config, outcome }: { config: GameConfig; outcome: LineOutcome }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const center = config.canvasSize / 2;
+    ctx.save();
+    ctx.fillStyle = '#1a1a2e';
+    ctx.fillRect(0, 0, MINI_BOARD_SIZE, MINI_BOARD_SIZE);
+    ctx.scale(MINI_BOARD_SIZE / config.canvasSize, MINI_BOARD_SIZE / config.canvasSize);
+
+    config.rings.forEach((ring, idx) => {
+      ctx.beginPath();
+      traceZone(ctx, ring, center, center);
+      ctx.fillStyle = `hsla(${120 + idx * 20}, 60%, 40%, 0.35)`;
+      ctx.fill('evenodd');
+    });
+
+    outcome.pins.forEach((pin) => {
+      const color = findPlayer(outcome.players, pin.playerId)?.color ?? '#888888';
+      ctx.beginPath();
+      ctx.arc(pin.x, pin.y, config.pinRadius, 0, Math.PI * 2);
+      ctx.fillStyle = pin.state === 'fallen' ? color + '80' : color;
+      ctx.fill();
+    });
+    ctx.restore();
+  }, [config, outcome]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={MINI_BOARD_SIZE}
+      height={MINI_BOARD_SIZE}
+      style={{ borderRadius: '4px' }}
+    />
+  );
+}
+
+export function WhatIfBranches() {
+  const [throwIndex, setThrowIndex] = useState<number | null>(null);
+  const [aim, setAim] = useState({ throwAngle: 0, throwPower: 0.5, throwPitch: 0 });
+  const [name, setName] = useState('');
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const phase = useGameStore((state) => state.phase);
+  const replay = useGameStore((state) => state.replay);
+  const config = useGameStore((state) => state.config);
+  const players = useGameStore((state) => state.players);
+  const turnOrder = useGameStore((state) => state.turnOrder);
+  const throwHistory = useGameStore((state) => state.throwHistory);
+  const liveBranches = useGameStore((state) => state.branches);
+
+  const addBranch = useGameStore((state) => state.addBranch);
+  const renameBranch = useGameStore((state) => state.renameBranch);
+  const removeBranch = useGameStore((state) => state.removeBranch);
+
+  // Imported matches show their own branches, read-only. The main line only
+  // falls back to the live config before the first throw, so aiming doesn't
+  // re-run an open comparison.
+  const recordingConfig = throwHistory[0]?.config ?? config;
+  const mainLine = useMemo(
+    () =>
+      replay
+        ? replay.timeline.recording
+        : createRecording({ config: recordingConfig, players, turnOrder, throwHistory }),
+    [replay, recordingConfig, players, turnOrder, throwHistory]
+  );
+  const branches = (replay ? mainLine.branches : liveBranches) ?? [];
+  const throws = mainLine.throws;
+  const canEdit = !replay && phase !== 'simulating' && phase !== 'resolving';
+
+  // The comparison replays the match three times, so it's keyed on the open
+  // branch's fork and aim: renaming the branch doesn't re-run it
+  const openBranch = branches.find((b) => b.id === openId) ?? null;
+  const { throwIndex: forkIndex, rngState, throwAngle, throwPower, throwPitch } =
+    openBranch ?? NO_BRANCH;
+  const comparison = useMemo(() => {
+    const fork = {
+      ...NO_BRANCH,
+      throwIndex: forkIndex,
+      rngState,
+      throwAngle,
+      throwPower,
+      throwPitch,
+    };
+    if (forkIndex < 0 || !isBranchCurrent(fork, mainLine.throws)) return null;
+    return compareBranch(mainLine, fork);
+  }, [mainLine, forkIndex, rngState, throwAngle, throwPower, throwPitch]);
+
+  // Board as it was set up for the forked throw
+  const boardConfig = (openBranch && throws[openBranch.throwIndex]?.config) || config;
+
+  // Start from the original aim of the chosen throw
+  const selectThrow = (index: number) => {
+    const recorded = throws[index];
+    if (!recorded) return;
+    setThrowIndex(index);
+    setAim({
+      throwAngle: recorded.throwAngle,
+      throwPower: recorded.throwPower,
+      throwPitch: recorded.throwPitch,
+    });
+  };
+
+  const handleCreate = () => {
+    if (throwIndex === null) return;
+    addBranch({ name: name.trim() || `What if #${branches.length + 1}`, throwIndex, ...aim });
+    setName('');
+  };
+
+  const updateAim = (key: keyof typeof aim, value: string, min: number, max: number) => {
+    const num = parseFloat(value);
+    if (isNaN(num)) return;
+    setAim({ ...aim, [key]: Math.max(min, Math.min(max, num)) });
+  };
+
+  const buttonStyle = (enabled: boolean, color = '#4a4a6a'): React.CSSProperties => ({
+    padding: '4px 8px',
+    backgroundColor: enabled ? color : '#333',
+    color: '#fff',
+    border: 'none',
+    borderRadius: '4px',
+    fontSize: '11px',
+    cursor: enabled ? 'pointer' : 'not-allowed',
+  });
+
+  const inputStyle: React.CSSProperties = {
+    width: '48px',
+    padding: '2px 4px',
+    backgroundColor: '#1a1a2e',
+    border: '1px solid #4a4a6a',
+    borderRadius: '4px',
+    color: '#fff',
+    fontSize: '11px',
+  };
+
+  const renderLine = (title: string, outcome: LineOutcome) => (
+    <div style={{ flex: 1, display: 'flex', flexDirection: 'column', gap: '4px' }}>
+      <div style={{ color: '#fff', fontWeight: 'bold', fontSize: '11px' }}>{title}</div>
+      <MiniBoard config={boardConfig} outcome={outcome} />
+      <div style={{ color: '#aaa', fontSize: '10px' }}>{outcome.text}</div>
+      {outcome.players.map((p) => {
+        const delta = outcome.deltas[p.id] ?? 0;
+        return (
+          <div key={p.id} style={{ fontSize: '11px', color: p.color }}>
+            {getPlayerLabel(p)}: {p.score}{' '}
+            <span style={{ color: delta > 0 ? '#22c55e' : delta < 0 ? '#ef4444' : '#888' }}>
+              ({delta >= 0 ? '+' : ''}
+              {delta})
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  if (throws.length === 0 && branches.length === 0) return null;
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        padding: '16px',
+        backgroundColor: '#2a2a4a',
+        borderRadius: '8px',
+        minWidth: '280px',
+        maxWidth: '320px',
+        fontSize: '12px',
+      }}
+    >
+      <h3 style={{ margin: 0, color: '#fff', fontSize: '14px' }}>What If…</h3>
+
+      {canEdit && (
+        <>
+          <select
+            value={throwIndex ?? ''}
+            onChange={(e) => selectThrow(Number(e.target.value))}
+            style={{ ...inputStyle, width: '100%', padding: '4px' }}
+          >
+            <option value="" disabled>
+              Fork a throw…
+            </option>
+            {throws.map((t, i) => (
+              <option key={i} value={i}>
+                #{i + 1} {getPlayerLabel(findPlayer(players, t.playerId), t.playerId)}:{' '}
+                {t.throwAngle}° / {Math.round(t.throwPower * 100)}% / {t.throwPitch}°
+              </option>
+            ))}
+          </select>
+          {throwIndex !== null && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', alignItems: 'center' }}>
+              <input
+                type="number"
+                value={aim.throwAngle}
+                onChange={(e) => updateAim('throwAngle', e.target.value, -60, 60)}
+                title="Angle (°)"
+                style={inputStyle}
+              />
+              <input
+                type="number"
+                step={0.01}
+                value={aim.throwPower}
+                onChange={(e) => updateAim('throwPower', e.target.value, 0.1, 1)}
+                title="Power (0.1-1)"
+                style={inputStyle}
+              />
+              <input
+                type="number"
+                value={aim.throwPitch}
+                onChange={(e) => updateAim('throwPitch', e.target.value, 0, 45)}
+                title="Pitch (°)"
+                style={inputStyle}
+              />
+              <input
+                type="text"
+                value={name}
+                placeholder="Name"
+                onChange={(e) => setName(e.target.value)}
+                style={{ ...inputStyle, width: '90px' }}
+              />
+              <button onClick={handleCreate} style={buttonStyle(true, '#8b5cf6')}>
+                Branch
+              </button>
+            </div>
+          )}
+        </>
+      )}
+
+      {branches.map((branch) => {
+        const current = isBranchCurrent(branch, throws);
+        const isOpen = branch.id === openId;
+        return (
+          <div
+            key={branch.id}
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '6px',
+              padding: '6px',
+              backgroundColor: '#1a1a2e',
+              borderRadius: '4px',
+            }}
+          >
+            <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+              {canEdit ? (
+                <input
+                  type="text"
+                  value={branch.name}
+                  onChange={(e) => renameBranch(branch.id, e.target.value)}
+                  style={{ ...inputStyle, flex: 1 }}
+                />
+              ) : (
+                <span style={{ flex: 1, color: '#fff' }}>{branch.name}</span>
+              )}
+              <span style={{ color: '#888', fontSize: '10px' }}>
+                #{branch.throwIndex + 1} {branch.throwAngle}° / {Math.round(branch.throwPower * 100)}%
+              </span>
+              <button
+                onClick={() => setOpenId(isOpen ? null : branch.id)}
+                disabled={!current}
+                style={buttonStyle(current)}
+              >
+                {isOpen ? 'Hide' : 'Compare'}
+              </button>
+              {canEdit && (
+                <button onClick={() => removeBranch(branch.id)} style={buttonStyle(true, '#ef4444')}>
+                  ×
+                </button>
+              )}
+            </div>
+            {!current && (
+              <div style={{ color: '#f59e0b', fontSize: '10px' }}>
+                Throw {branch.throwIndex + 1} has changed since this branch was made
+              </div>
+            )}
+            {isOpen && comparison && (
+              <div style={{ display: 'flex', gap: '8px' }}>
+                {renderLine('Original', comparison.original)}
+                {renderLine(branch.name || 'Branch', comparison.branch)}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
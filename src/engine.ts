@@ -0,0 +1,715 @@
+import type { Pin, Player, GameConfig, ThrowRuntime } from './types';
+import { Mulberry32 } from './utils/random';
+import {
+  calculateThrowVelocity,
+  getThrowStartPosition,
+  checkCollision,
+  applyCollisionResponse,
+  areAtCollisionHeight,
+  getContactTime,
+  getPairImpulse,
+  getSeparation,
+  findCandidatePairs,
+  findAllPairs,
+  applySpin,
+  resolveObstacleContact,
+  getTipKick,
+  updateTilt,
+  MAX_SPIN,
+  findRing,
+  applyBoundaryReflection,
+  isOutOfBounds,
+  speed,
+  calculateStandProbability,
+  calculateKnockProbability,
+  applyGravity,
+  applyGroundBounce,
+  isGrounded,
+} from './physics';
+import type { PairImpulse } from './physics';
+import { areOpponents, getPlayerName } from './players';
+import { getRingPoints, getScoringRules } from './scoring';
+import { findSurfacePatch, getWind } from './environment';
+
+// Physics constants (friction, gravity, speeds) are tuned per 60Hz step
+export const FIXED_TIMESTEP_MS = 1000 / 60;
+
+// Upper bound for headless runs so a throw that never settles can't hang
+export const MAX_SIMULATION_STEPS = 10000;
+
+// Most pins the board setting allows. Stress boards up to this many step
+// in a few milliseconds; denser ones can jam, and the pile's speeds grow
+// until every pin is a collision candidate.
+export const MAX_PINS_ON_BOARD = 200;
+
+// Landing faster than this rocks a standing pin (tip-over mode)
+const HARD_LANDING_SPEED = 1.5;
+
+// Max steps caught up in one frame (avoids a spiral after a stalled tab)
+const MAX_STEPS_PER_FRAME = 8;
+
+// Result of resolving a throw
+export interface ThrowResolution {
+  pins: Pin[];
+  deltas: Record<number, number>; // Score change per player id
+  text: string;
+}
+
+export function createInitialRuntime(): ThrowRuntime {
+  return {
+    thrownPinId: null,
+    collisionCount: 0,
+    knockedIds: new Set(),
+    collidedWith: new Set(),
+    impactSpeeds: new Map(),
+    chain: [],
+    startRings: new Map(),
+    steps: 0,
+  };
+}
+
+function cloneRuntime(runtime: ThrowRuntime): ThrowRuntime {
+  return {
+    ...runtime,
+    knockedIds: new Set(runtime.knockedIds),
+    collidedWith: new Set(runtime.collidedWith),
+    impactSpeeds: new Map(runtime.impactSpeeds),
+    chain: runtime.chain.map((link) => ({ ...link })),
+    startRings: new Map(runtime.startRings),
+  };
+}
+
+// Runtime for a new throw. Remembers where the earlier pins were so
+// live board scoring can tell which ones were displaced.
+export function createThrowRuntime(
+  config: GameConfig,
+  pins: Pin[],
+  thrownPinId: string
+): ThrowRuntime {
+  const startRings = new Map<string, number>();
+  pins.forEach((pin) => {
+    if (pin.id !== thrownPinId) {
+      startRings.set(pin.id, findRing(pin.x, pin.y, config).ringIndex);
+    }
+  });
+  return { ...createInitialRuntime(), thrownPinId, startRings };
+}
+
+function getRingName(ringIndex: number): string {
+  return ringIndex >= 0 ? `Ring ${ringIndex + 1}` : 'Outside';
+}
+
+// Chain generation of a pin: 0 for the thrown pin, null if the chain never reached it
+function getChainGeneration(runtime: ThrowRuntime, pinId: string): number | null {
+  if (pinId === runtime.thrownPinId) return 0;
+  return runtime.chain.find((link) => link.targetId === pinId)?.generation ?? null;
+}
+
+// Create a freshly thrown pin at the start position using the config's aim
+export function createThrownPin(
+  config: GameConfig,
+  playerId: number,
+  id: string
+): Pin {
+  const { x, y } = getThrowStartPosition(config.canvasSize);
+  const { vx, vy, vz } = calculateThrowVelocity(
+    config.throwPower,
+    config.throwAngle,
+    config.throwPitch
+  );
+
+  return {
+    id,
+    playerId,
+    x,
+    y,
+    z: 0,  // Start at ground level
+    vx,
+    vy,
+    vz,    // Initial vertical velocity from pitch angle
+    state: 'standing',
+    isMoving: true,
+    mass: config.pinMass,
+    spin: config.throwSpin * MAX_SPIN,
+  };
+}
+
+// Add a thrown pin to the board, removing the oldest pins if over limit
+export function addPinToBoard(pins: Pin[], pin: Pin, maxPins: number): Pin[] {
+  const newPins = [...pins];
+  while (newPins.length >= maxPins) {
+    newPins.shift();
+  }
+  newPins.push(pin);
+  return newPins;
+}
+
+// Converts wall-clock frame time into a whole number of fixed steps
+export class FixedStepClock {
+  private accumulator = 0;
+
+  // Returns how many fixed steps should run for the elapsed time
+  consume(elapsedMs: number): number {
+    this.accumulator += Math.max(0, elapsedMs);
+    const steps = Math.floor(this.accumulator / FIXED_TIMESTEP_MS);
+    if (steps > MAX_STEPS_PER_FRAME) {
+      // Drop the backlog instead of fast-forwarding the throw
+      this.accumulator = 0;
+      return MAX_STEPS_PER_FRAME;
+    }
+    this.accumulator -= steps * FIXED_TIMESTEP_MS;
+    return steps;
+  }
+
+  reset(): void {
+    this.accumulator = 0;
+  }
+}
+
+export interface SimulationOptions {
+  // Never roll for knocks, e.g. to preview a throw's path. The RNG is left
+  // untouched; hit pins stay standing unless they tip over.
+  skipRolls?: boolean;
+}
+
+// Headless simulation of a single throw. Works on its own copy of the pins,
+// runtime and RNG, so it can run outside React (workers, tests, replays).
+export class SimulationEngine {
+  private readonly config: GameConfig;
+  private readonly pins: Pin[];
+  private readonly runtime: ThrowRuntime;
+  private readonly rng: Mulberry32;
+  private readonly players: Player[];
+  private readonly options: SimulationOptions;
+  private stepCount = 0;
+  private wind = { x: 0, y: 0 };
+
+  // players is only used to tell teammates from opponents
+  constructor(
+    config: GameConfig,
+    pins: Pin[],
+    rngState: number,
+    runtime: ThrowRuntime = createInitialRuntime(),
+    players: Player[] = [],
+    options: SimulationOptions = {}
+  ) {
+    this.config = config;
+    this.players = players;
+    this.options = options;
+    this.pins = pins.map((p) => ({ ...p }));
+    this.runtime = cloneRuntime(runtime);
+    this.rng = new Mulberry32(0);
+    this.rng.setState(rngState);
+  }
+
+  getPins(): Pin[] {
+    return this.pins.map((p) => ({ ...p }));
+  }
+
+  getPin(id: string): Pin | undefined {
+    const pin = this.pins.find((p) => p.id === id);
+    return pin && { ...pin };
+  }
+
+  getRuntime(): ThrowRuntime {
+    return cloneRuntime(this.runtime);
+  }
+
+  getRngState(): number {
+    return this.rng.getState();
+  }
+
+  getStepCount(): number {
+    return this.stepCount;
+  }
+
+  isAtRest(): boolean {
+    return !this.pins.some((p) => p.isMoving);
+  }
+
+  // Advance one fixed timestep - simulates ALL moving pins for chain reactions.
+  // Returns true if any pin is still moving afterwards.
+  step(): boolean {
+    if (this.isAtRest()) return false;
+
+    const { runtime } = this;
+    this.wind = getWind(this.config, runtime.thrownPinId ?? '', runtime.steps);
+
+    if ((this.config.collisionModel ?? 'legacy') === 'legacy') {
+      this.stepLegacy();
+    } else {
+      this.stepPairwise();
+    }
+
+    this.stepCount++;
+    runtime.steps++;
+    return !this.isAtRest();
+  }
+
+  // Original model: each moving pin resolves its hits as it is visited,
+  // so the outcome depends on the order of the pins array
+  private stepLegacy(): void {
+    const { config, pins } = this;
+
+    for (let i = 0; i < pins.length; i++) {
+      const pin = pins[i];
+      if (!pin.isMoving) continue;
+
+      this.applyForces(pin);
+
+      // Collision detection with other pins
+      for (let j = 0; j < pins.length; j++) {
+        if (i === j) continue;
+        const otherPin = pins[j];
+
+        if (checkCollision(pin, otherPin, config.pinRadius, config.pinHeight, config.collisionZThreshold)) {
+          // Calculate impact speed before response
+          const impactSpeed = speed(
+            pin.vx - otherPin.vx,
+            pin.vy - otherPin.vy
+          );
+
+          // Apply collision response (3D)
+          const response = applyCollisionResponse(pin, otherPin);
+          pin.vx = response.mvx;
+          pin.vy = response.mvy;
+          pin.vz = response.mvz;
+          otherPin.vx = response.svx;
+          otherPin.vy = response.svy;
+          otherPin.vz = response.svz;
+
+          // Mark the other pin as moving for chain reaction (billiard effect)
+          if (speed(otherPin.vx, otherPin.vy) > config.stopThreshold) {
+            otherPin.isMoving = true;
+          }
+
+          this.kickPins(pin, otherPin, impactSpeed);
+          this.judgeHit(pin, otherPin, impactSpeed);
+        }
+      }
+
+      this.movePin(pin);
+    }
+  }
+
+  // Pairwise model: find every contact first (swept, so fast pins can't
+  // pass through each other), resolve them all from the same starting
+  // velocities, then push apart any pins left overlapping
+  private stepPairwise(): void {
+    const { config, pins } = this;
+
+    pins.forEach((pin) => {
+      if (pin.isMoving) this.applyForces(pin);
+    });
+
+    // Two pins can close at most twice the fastest pin's speed this step
+    const maxSpeed = Math.max(0, ...pins.map((p) => (p.isMoving ? speed(p.vx, p.vy) : 0)));
+    const contacts: { a: Pin; b: Pin; impulse: PairImpulse; impactSpeed: number }[] = [];
+    const reach = 2 * config.pinRadius + 2 * maxSpeed;
+    const pairs = this.getCandidatePairs(reach);
+    pairs.forEach(([i, j]) => {
+      const a = pins[i];
+      const b = pins[j];
+      if (!a.isMoving && !b.isMoving) return;
+      if (!areAtCollisionHeight(a, b, config.pinHeight, config.collisionZThreshold)) return;
+      if (getContactTime(a, b, config.pinRadius) === null) return;
+
+      const impulse = getPairImpulse(a, b, config.restitution, config.pinRadius);
+      if (!impulse) return;
+      contacts.push({ a, b, impulse, impactSpeed: speed(a.vx - b.vx, a.vy - b.vy) });
+    });
+
+    // Sum every impulse before applying any, so pin order doesn't matter
+    contacts.forEach(({ a, b, impulse }) => {
+      a.vx += impulse.ax;
+      a.vy += impulse.ay;
+      a.vz += impulse.az;
+      a.spin = (a.spin ?? 0) + impulse.aSpin;
+      b.vx += impulse.bx;
+      b.vy += impulse.by;
+      b.vz += impulse.bz;
+      b.spin = (b.spin ?? 0) + impulse.bSpin;
+    });
+
+    contacts.forEach(({ a, b, impactSpeed }) => {
+      [a, b].forEach((pin) => {
+        if (speed(pin.vx, pin.vy) > config.stopThreshold) {
+          pin.isMoving = true;
+        }
+      });
+      this.kickPins(a, b, impactSpeed);
+      this.judgeHit(a, b, impactSpeed);
+      this.judgeHit(b, a, impactSpeed);
+    });
+
+    const startX = pins.map((pin) => pin.x);
+    const startY = pins.map((pin) => pin.y);
+    pins.forEach((pin) => {
+      if (pin.isMoving) this.movePin(pin);
+    });
+
+    // The pairs found above still cover every overlap unless a pin moved
+    // further than the fastest one's speed (after a collision or a bumper)
+    const moved = Math.max(0, ...pins.map((p, i) => speed(p.x - startX[i], p.y - startY[i])));
+    const stillCovered = 2 * config.pinRadius + 2 * moved <= reach;
+    this.separateOverlaps(stillCovered ? pairs : this.getCandidatePairs(2 * config.pinRadius));
+  }
+
+  // Pin index pairs that may be within reach of each other
+  private getCandidatePairs(reach: number): [number, number][] {
+    if (this.config.broadPhase === 'none') return findAllPairs(this.pins.length);
+    return findCandidatePairs(this.pins, reach);
+  }
+
+  // Gravity plus ground or air friction
+  private applyForces(pin: Pin): void {
+    const { config } = this;
+
+    // Apply gravity (affects vz)
+    pin.vz = applyGravity(pin.vz, config.gravity);
+
+    // Apply horizontal friction (only when grounded or low)
+    // Surface patches grip any pin touching the ground
+    const grounded = isGrounded(pin.z, pin.vz);
+    const onGround = pin.z <= 0.1;
+    const patch = onGround ? findSurfacePatch(pin.x, pin.y, config) : null;
+    if (patch) {
+      pin.vx *= patch.friction;
+      pin.vy *= patch.friction;
+    } else if (grounded) {
+      pin.vx *= config.friction;
+      pin.vy *= config.friction;
+    } else {
+      // Air friction (less friction in air)
+      pin.vx *= config.airDrag;
+      pin.vy *= config.airDrag;
+    }
+
+    // Wind only reaches pins off the ground
+    if (!onGround) {
+      pin.vx += this.wind.x;
+      pin.vy += this.wind.y;
+    }
+
+    // Spinning pins curve
+    if (pin.spin) {
+      const spun = applySpin(pin, grounded);
+      pin.vx = spun.vx;
+      pin.vy = spun.vy;
+      pin.angle = spun.angle;
+      pin.spin = spun.spin;
+    }
+  }
+
+  // Integrate position, then handle the ground, the walls and stopping
+  private movePin(pin: Pin): void {
+    const { config } = this;
+
+    // Update position (3D)
+    if ((config.obstacles ?? []).length === 0) {
+      pin.x += pin.vx;
+      pin.y += pin.vy;
+    } else {
+      this.moveAroundObstacles(pin);
+    }
+    pin.z += pin.vz;
+
+    // Ground bounce handling
+    const landingSpeed = -pin.vz;
+    const groundResult = applyGroundBounce(pin.z, pin.vz, config.groundRestitution);
+    pin.z = groundResult.z;
+    pin.vz = groundResult.vz;
+
+    if (config.standModel === 'tipOver' && pin.state === 'standing') {
+      // A hard landing rocks the pin in its direction of travel
+      if (groundResult.bounced && landingSpeed > HARD_LANDING_SPEED) {
+        pin.tiltVelocity = (pin.tiltVelocity ?? 0) + getTipKick(landingSpeed * 0.5, config.pinHeight);
+        pin.angle = Math.atan2(pin.vy, pin.vx);
+      }
+      this.tiltPin(pin);
+    }
+
+    // Boundary check
+    if (isOutOfBounds(pin, config)) {
+      const reflected = applyBoundaryReflection(pin, config);
+      pin.x = reflected.x;
+      pin.y = reflected.y;
+      pin.vx = reflected.vx;
+      pin.vy = reflected.vy;
+    }
+
+    // Stop check - pin stops when grounded AND horizontal speed is low
+    // (a pin still rocking keeps going until it settles or falls)
+    const horizontalSpeed = speed(pin.vx, pin.vy);
+    const isRocking =
+      pin.state === 'standing' && ((pin.tilt ?? 0) > 0 || (pin.tiltVelocity ?? 0) !== 0);
+    if (isGrounded(pin.z, pin.vz) && horizontalSpeed < config.stopThreshold && !isRocking) {
+      pin.vx = 0;
+      pin.vy = 0;
+      pin.vz = 0;
+      pin.z = 0;
+      pin.isMoving = false;
+      if (pin.spin) pin.spin = 0;
+    }
+  }
+
+  // Move in steps shorter than a pin radius so fast pins can't pass
+  // through thin walls, bouncing off any obstacle touched on the way
+  private moveAroundObstacles(pin: Pin): void {
+    const { config } = this;
+    const substeps = Math.max(1, Math.ceil(speed(pin.vx, pin.vy) / config.pinRadius));
+    for (let i = 0; i < substeps; i++) {
+      pin.x += pin.vx / substeps;
+      pin.y += pin.vy / substeps;
+      config.obstacles.forEach((obstacle) => {
+        const contact = resolveObstacleContact(pin, obstacle, config.pinRadius);
+        if (!contact) return;
+        pin.x = contact.x;
+        pin.y = contact.y;
+        pin.vx = contact.vx;
+        pin.vy = contact.vy;
+      });
+    }
+  }
+
+  // Tip-over mode: standing pins in a collision rock away from each other
+  private kickPins(a: Pin, b: Pin, impactSpeed: number): void {
+    if (this.config.standModel !== 'tipOver') return;
+    const kick = getTipKick(impactSpeed, this.config.pinHeight);
+    [
+      { pin: a, other: b },
+      { pin: b, other: a },
+    ].forEach(({ pin, other }) => {
+      if (pin.state !== 'standing') return;
+      pin.tiltVelocity = (pin.tiltVelocity ?? 0) + kick;
+      pin.angle = Math.atan2(pin.y - other.y, pin.x - other.x);
+      pin.isMoving = true;
+    });
+  }
+
+  // Advance a standing pin's lean; one that topples counts as knocked if
+  // it was judged as hit by the throw and belongs to an opponent
+  private tiltPin(pin: Pin): void {
+    const { runtime, pins, players } = this;
+    const tilted = updateTilt(pin, this.config);
+    pin.tilt = tilted.tilt;
+    pin.tiltVelocity = tilted.tiltVelocity;
+    if (!tilted.toppled) return;
+
+    pin.state = 'fallen';
+    const link = runtime.chain.find((l) => l.targetId === pin.id);
+    const thrownPin = pins.find((p) => p.id === runtime.thrownPinId);
+    if (link && thrownPin && areOpponents(players, thrownPin.playerId, pin.playerId)) {
+      link.knocked = true;
+      runtime.knockedIds.add(pin.id);
+      runtime.impactSpeeds.set(pin.id, link.impactSpeed ?? 0);
+    }
+  }
+
+  // Push overlapping pins apart, all from their positions before the pass.
+  // pairs must include every pair of pins that overlap.
+  private separateOverlaps(pairs: [number, number][]): void {
+    const { config, pins } = this;
+    const shifts = pins.map(() => ({ x: 0, y: 0 }));
+
+    pairs.forEach(([i, j]) => {
+      const a = pins[i];
+      const b = pins[j];
+      if (!areAtCollisionHeight(a, b, config.pinHeight, config.collisionZThreshold)) return;
+      const separation = getSeparation(a, b, config.pinRadius);
+      if (!separation) return;
+      shifts[i].x += separation.ax;
+      shifts[i].y += separation.ay;
+      shifts[j].x += separation.bx;
+      shifts[j].y += separation.by;
+    });
+
+    pins.forEach((pin, i) => {
+      pin.x += shifts[i].x;
+      pin.y += shifts[i].y;
+    });
+  }
+
+  // Count and judge a hit of striker on target. Each pin is judged once, on
+  // its first hit from the collision chain; without chain knocks only the
+  // thrown pin's hits are judged.
+  private judgeHit(striker: Pin, target: Pin, impactSpeed: number): void {
+    const { config, pins, runtime, rng, players } = this;
+
+    // Only the thrown pin's collisions count against its stand roll
+    if (striker.id === runtime.thrownPinId) {
+      runtime.collisionCount++;
+    }
+
+    const strikerGeneration = getChainGeneration(runtime, striker.id);
+    const judgesHit =
+      strikerGeneration === 0 ||
+      (config.chainKnocksEnabled && strikerGeneration !== null);
+    if (
+      !judgesHit ||
+      target.id === runtime.thrownPinId ||
+      runtime.collidedWith.has(target.id)
+    ) {
+      return;
+    }
+
+    runtime.collidedWith.add(target.id);
+    let knocked = false;
+
+    // Knock probability check - only knock the thrower's opponents' pins.
+    // In tip-over mode the pin is knocked later, if it actually falls.
+    const thrownPin = pins.find((p) => p.id === runtime.thrownPinId);
+    if (
+      config.standModel !== 'tipOver' &&
+      !this.options.skipRolls &&
+      thrownPin &&
+      areOpponents(players, thrownPin.playerId, target.playerId)
+    ) {
+      const knockProb = calculateKnockProbability(config, impactSpeed);
+      if (rng.chance(knockProb) && target.state === 'standing') {
+        // Mark as knocked
+        target.state = 'fallen';
+        runtime.knockedIds.add(target.id);
+        runtime.impactSpeeds.set(target.id, impactSpeed);
+        knocked = true;
+      }
+    }
+
+    runtime.chain.push({
+      strikerId: striker.id,
+      targetId: target.id,
+      generation: (strikerGeneration ?? 0) + 1,
+      knocked,
+      impactSpeed,
+    });
+  }
+
+  // Step until every pin has stopped. Returns the number of steps taken.
+  runUntilRest(maxSteps: number = MAX_SIMULATION_STEPS): number {
+    const start = this.stepCount;
+    while (this.stepCount - start < maxSteps && this.step()) {
+      // keep stepping
+    }
+    return this.stepCount - start;
+  }
+
+  // Roll stand/fall for the thrown pin and calculate score deltas.
+  // Returns null if the thrown pin is no longer on the board.
+  resolve(currentPlayerId: number): ThrowResolution | null {
+    const { config, pins, runtime, rng } = this;
+    const thrownPin = pins.find((p) => p.id === runtime.thrownPinId);
+    if (!thrownPin) return null;
+
+    // Determine standing/fallen for thrown pin (tip-over mode: as it came to rest)
+    const thrownRingInfo = findRing(thrownPin.x, thrownPin.y, config);
+    let isStanding = thrownPin.state === 'standing';
+    if (config.standModel !== 'tipOver') {
+      const standProb = calculateStandProbability(
+        config,
+        thrownRingInfo.ringIndex,
+        runtime.collisionCount
+      );
+      isStanding = rng.chance(standProb);
+      thrownPin.state = isStanding ? 'standing' : 'fallen';
+    }
+
+    // Calculate scores
+    const rules = getScoringRules(config);
+    const pointsAt = (ringIndex: number) => getRingPoints(config, rules, ringIndex);
+    const deltas: Record<number, number> = { [currentPlayerId]: 0 };
+    const addDelta = (playerId: number, delta: number) => {
+      deltas[playerId] = (deltas[playerId] ?? 0) + delta;
+    };
+    const logTexts: string[] = [];
+
+    // Landing score for thrown pin
+    const thrownPoints = pointsAt(thrownRingInfo.ringIndex);
+    const landingMultiplier = isStanding ? rules.landing.standing : rules.landing.fallen;
+    const landingScore = landingMultiplier * thrownPoints;
+
+    addDelta(currentPlayerId, landingScore);
+
+    const ringName = getRingName(thrownRingInfo.ringIndex);
+    const stateStr = isStanding ? 'standing' : 'fallen';
+    logTexts.push(
+      `Pin landed ${stateStr} in ${ringName} (${thrownPoints}pts): +${landingScore}`
+    );
+
+    // Knockdown bonuses and penalties (only standing pins are ever knocked)
+    runtime.knockedIds.forEach((knockedId) => {
+      const knockedPin = pins.find((p) => p.id === knockedId);
+      if (!knockedPin) return;
+
+      const knockedRingIndex = findRing(knockedPin.x, knockedPin.y, config).ringIndex;
+      const knockedPoints = pointsAt(knockedRingIndex);
+      const opponentLoss = rules.knock.loss * knockedPoints;
+
+      // Bonus for knocker, decaying for knocks further down the chain
+      const generation = getChainGeneration(runtime, knockedId) ?? 1;
+      const bonusMultiplier = isStanding ? rules.knock.bonusStanding : rules.knock.bonusFallen;
+      const decay = Math.pow(config.chainKnockDecay, generation - 1);
+      const knockBonus = Math.round(bonusMultiplier * knockedPoints * decay);
+
+      addDelta(currentPlayerId, knockBonus);
+      addDelta(knockedPin.playerId, -opponentLoss);
+
+      const knockedRingName = getRingName(knockedRingIndex);
+      const knockVerb = generation > 1 ? `Chain-knocked (gen ${generation})` : 'Knocked';
+      const lossText = rules.knock.loss > 0 ? `, opponent -${opponentLoss}` : '';
+      const owner = getPlayerName(this.players, knockedPin.playerId);
+      logTexts.push(
+        `${knockVerb} ${owner}'s pin in ${knockedRingName}: +${knockBonus} bonus${lossText}`
+      );
+    });
+
+    // Live board: earlier pins pushed into another ring change their
+    // owner's score (knocked pins were already scored above)
+    if (config.liveBoardScoring) {
+      runtime.startRings.forEach((beforeIndex, pinId) => {
+        if (runtime.knockedIds.has(pinId)) return;
+        const pin = pins.find((p) => p.id === pinId);
+        if (!pin) return;
+
+        const afterIndex = findRing(pin.x, pin.y, config).ringIndex;
+        if (afterIndex === beforeIndex) return;
+
+        const multiplier =
+          pin.state === 'standing' ? rules.displacement.standing : rules.displacement.fallen;
+        const change = multiplier * (pointsAt(afterIndex) - pointsAt(beforeIndex));
+        if (change === 0 || (change < 0 && !rules.penalties.allowLosses)) return;
+
+        addDelta(pin.playerId, change);
+        const owner = getPlayerName(this.players, pin.playerId);
+        logTexts.push(
+          `${owner}'s pin pushed ${getRingName(beforeIndex)} → ${getRingName(afterIndex)}: ${change > 0 ? '+' : ''}${change}`
+        );
+      });
+    }
+
+    // Penalty for every collision the thrown pin made
+    const collisionPenalty = rules.penalties.perCollision * runtime.collisionCount;
+    if (collisionPenalty > 0) {
+      addDelta(currentPlayerId, -collisionPenalty);
+      logTexts.push(`Collision penalty (${runtime.collisionCount} hits): -${collisionPenalty}`);
+    }
+
+    // Summarize chain reactions that went past the thrown pin's direct hits
+    const generations = Math.max(0, ...runtime.chain.map((link) => link.generation));
+    if (generations > 1) {
+      logTexts.push(`Chain: ${runtime.chain.length} pins hit over ${generations} generations`);
+    }
+
+    // Rules without losses drop every negative change
+    if (!rules.penalties.allowLosses) {
+      Object.keys(deltas).forEach((id) => {
+        deltas[Number(id)] = Math.max(0, deltas[Number(id)]);
+      });
+    }
+
+    return {
+      pins: this.getPins(),
+      deltas,
+      text: logTexts.join(' | '),
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import type { GameConfig, SurfaceKind, SurfacePatch } from './types';
+import { Mulberry32 } from './utils/random';
+import { distance, findRing } from './physics';
+
+export interface SurfaceType {
+  name: string;
+  friction: number;            // Default friction for new patches
+  color: string;
+}
+
+export const SURFACES: Record<SurfaceKind, SurfaceType> = {
+  sand: { name: 'Sand', friction: 0.92, color: '#d4a373' },
+  grass: { name: 'Grass', friction: 0.96, color: '#65a30d' },
+  ice: { name: 'Ice', friction: 0.998, color: '#a5f3fc' },
+};
+
+// Frames between gust changes (half a second); strength eases in between
+const GUST_PERIOD = 30;
+
+// Largest gust swing of the wind direction, in degrees, at full gustiness
+const GUST_TURN = 30;
+
+export function isOnPatch(x: number, y: number, patch: SurfacePatch, config: GameConfig): boolean {
+  const { region } = patch;
+  if (region.type === 'ring') {
+    return findRing(x, y, config).ringIndex === region.ringIndex;
+  }
+  return distance(x, y, region.x, region.y) <= region.radius;
+}
+
+// Topmost patch covering a point, or null for the plain board (configs saved
+// before surfaces existed have none)
+export function findSurfacePatch(x: number, y: number, config: GameConfig): SurfacePatch | null {
+  const surfaces = config.surfaces ?? [];
+  for (let i = surfaces.length - 1; i >= 0; i--) {
+    if (isOnPatch(x, y, surfaces[i], config)) return surfaces[i];
+  }
+  return null;
+}
+
+// FNV-1a, to turn a pin id into a gust seed
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Random strength and direction offsets (-1 to 1) of one gust
+function getGust(seed: number, index: number): { strength: number; turn: number } {
+  const rng = new Mulberry32((seed + Math.imul(index, 0x9e3779b9)) >>> 0);
+  return { strength: rng.range(-1, 1), turn: rng.range(-1, 1) };
+}
+
+// Wind acceleration at a step of a throw. Gusts are seeded from the thrown
+// pin's id, so a throw always meets the same gusts and the game RNG is
+// left untouched.
+export function getWind(config: GameConfig, gustKey: string, step: number): { x: number; y: number } {
+  const wind = config.wind;
+  if (!wind || wind.speed === 0) return { x: 0, y: 0 };
+
+  let strength = 1;
+  let turn = 0;
+  if (wind.gustiness > 0) {
+    const seed = hashString(gustKey);
+    const index = Math.floor(step / GUST_PERIOD);
+    const t = (step % GUST_PERIOD) / GUST_PERIOD;
+    const from = getGust(seed, index);
+    const to = getGust(seed, index + 1);
+    strength += wind.gustiness * (from.strength + (to.strength - from.strength) * t);
+    turn = wind.gustiness * GUST_TURN * (from.turn + (to.turn - from.turn) * t);
+  }
+
+  // Same convention as the throw angle: 0° = up, positive = right
+  const rad = ((wind.direction + turn - 90) * Math.PI) / 180;
+  return {
+    x: Math.cos(rad) * wind.speed * strength,
+    y: Math.sin(rad) * wind.speed * strength,
+  };
+}
@@ -0,0 +1,186 @@
+import type { Pin, Player, GameConfig } from './types';
+import { Mulberry32 } from './utils/random';
+import {
+  SimulationEngine,
+  createThrowRuntime,
+  createThrownPin,
+  addPinToBoard,
+} from './engine';
+import { getScoringRules, scoreCurlingEnd, scoreEnd } from './scoring';
+import { areOpponents } from './players';
+
+// Aim ranges match the Controls sliders
+export const ANGLE_RANGE = { min: -60, max: 60 };
+export const POWER_RANGE = { min: 0.1, max: 1 };
+export const PITCH_RANGE = { min: 0, max: 45 };
+
+export interface ExplorerRequest {
+  config: GameConfig;
+  pins: Pin[];
+  players: Player[];
+  playerId: number;            // Player whose throw is being explored
+  pinId: string;               // Id the real throw will get (gusts are seeded from it)
+  seed: number;                // Base seed for the trial RNG states
+  angleSteps: number;
+  powerSteps: number;
+  pitchSteps: number;          // 1 = only the current pitch
+  trialsPerCell: number;
+}
+
+export interface ExplorerCell {
+  angle: number;
+  power: number;
+  pitch: number;               // Best pitch for this angle/power
+  mean: number;                // Expected points for the thrower (end standing in end-scored modes)
+  variance: number;
+  knockProbability: number;    // P(knocking at least one opponent pin)
+  restX: number;               // Mean resting position of the thrown pin
+  restY: number;
+}
+
+export interface ExplorerResult {
+  angles: number[];
+  powers: number[];
+  cells: ExplorerCell[];       // Row-major: power index * angles.length + angle index
+  trialsPerCell: number;
+}
+
+// Evenly spaced values between min and max (inclusive)
+function linspace(min: number, max: number, steps: number): number[] {
+  if (steps <= 1) return [(min + max) / 2];
+  return Array.from({ length: steps }, (_, i) => min + ((max - min) * i) / (steps - 1));
+}
+
+// Curling and closest-to-center throws score nothing by themselves, so a
+// throw is worth how the end would stand after it: the thrower's side's
+// points minus the other sides'. Null when points come from each throw.
+function getEndStanding(
+  config: GameConfig,
+  pins: Pin[],
+  players: Player[],
+  playerId: number
+): number | null {
+  const side = (id: number) => (areOpponents(players, playerId, id) ? -1 : 1);
+
+  if (config.matchMode === 'curling') {
+    const { points } = scoreCurlingEnd(config, pins, players, 0);
+    return Object.entries(points).reduce((sum, [id, pts]) => sum + side(Number(id)) * pts, 0);
+  }
+  if (getScoringRules(config).endScoring === 'closestToCenter') {
+    const award = scoreEnd(config, pins);
+    return award ? side(award.playerId) * award.points : 0;
+  }
+  return null;
+}
+
+// Run trials for one aim and summarize the outcomes
+function evaluateAim(
+  request: ExplorerRequest,
+  angle: number,
+  power: number,
+  pitch: number,
+  trialStates: number[]
+): ExplorerCell {
+  const { pins, players, playerId } = request;
+  const config: GameConfig = {
+    ...request.config,
+    throwAngle: angle,
+    throwPower: power,
+    throwPitch: pitch,
+  };
+
+  let sum = 0;
+  let sumSq = 0;
+  let knocks = 0;
+  let sumX = 0;
+  let sumY = 0;
+
+  trialStates.forEach((rngState) => {
+    const pin = createThrownPin(config, playerId, request.pinId);
+    const board = addPinToBoard(pins, pin, config.maxPinsOnBoard);
+    const engine = new SimulationEngine(
+      config,
+      board,
+      rngState,
+      createThrowRuntime(config, board, pin.id),
+      players
+    );
+    engine.runUntilRest();
+    const knockedCount = engine.getRuntime().knockedIds.size;
+    const resolution = engine.resolve(playerId);
+    const throwPoints = resolution?.deltas[playerId] ?? 0;
+    const standing = resolution && getEndStanding(config, resolution.pins, players, playerId);
+    const points = throwPoints + (standing ?? 0);
+    const thrown = resolution?.pins.find((p) => p.id === pin.id);
+
+    sum += points;
+    sumSq += points * points;
+    if (knockedCount > 0) knocks++;
+    sumX += thrown?.x ?? pin.x;
+    sumY += thrown?.y ?? pin.y;
+  });
+
+  const n = trialStates.length;
+  const mean = sum / n;
+  return {
+    angle,
+    power,
+    pitch,
+    mean,
+    variance: Math.max(0, sumSq / n - mean * mean),
+    knockProbability: knocks / n,
+    restX: sumX / n,
+    restY: sumY / n,
+  };
+}
+
+// Sweep angle x power (and optionally pitch) for the current board. Every
+// cell uses the same seeded trial RNG states so cells are comparable.
+export function runExplorerSweep(
+  request: ExplorerRequest,
+  onProgress?: (completed: number, total: number) => void
+): ExplorerResult {
+  const angles = linspace(ANGLE_RANGE.min, ANGLE_RANGE.max, request.angleSteps);
+  const powers = linspace(POWER_RANGE.min, POWER_RANGE.max, request.powerSteps);
+  const pitches =
+    request.pitchSteps <= 1
+      ? [request.config.throwPitch]
+      : linspace(PITCH_RANGE.min, PITCH_RANGE.max, request.pitchSteps);
+
+  const seedRng = new Mulberry32(request.seed);
+  const trialStates = Array.from({ length: Math.max(1, request.trialsPerCell) }, () =>
+    Math.floor(seedRng.next() * 4294967296)
+  );
+
+  const total = angles.length * powers.length;
+  const cells: ExplorerCell[] = [];
+
+  powers.forEach((power) => {
+    angles.forEach((angle) => {
+      // Keep the pitch with the best expected points for this cell
+      let best: ExplorerCell | null = null;
+      pitches.forEach((pitch) => {
+        const cell = evaluateAim(request, angle, power, pitch, trialStates);
+        if (!best || cell.mean > best.mean) best = cell;
+      });
+      cells.push(best!);
+      onProgress?.(cells.length, total);
+    });
+  });
+
+  return { angles, powers, cells, trialsPerCell: trialStates.length };
+}
+
+// Cell with the highest expected points
+export function getBestCell(result: ExplorerResult): ExplorerCell | null {
+  return result.cells.reduce<ExplorerCell | null>(
+    (best, cell) => (!best || cell.mean > best.mean ? cell : best),
+    null
+  );
+}
+
+// Red (worst) to green (best) color for a heatmap value
+export function getHeatColor(value: number, min: number, max: number, alpha = 1): string {
+  const t = max > min ? (value - min) / (max - min) : 0.5;
+  return `hsla(${Math.round(t * 120)}, 75%, 50%, ${alpha})`;
+}
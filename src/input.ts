@@ -0,0 +1,156 @@
+import type { GameConfig } from './types';
+import { MAX_ANGLE, MAX_PITCH, MIN_POWER, clamp } from './aiming';
+
+// Keyboard and gamepad bindings
+
+export type InputAction =
+  | 'angleLeft'
+  | 'angleRight'
+  | 'powerUp'
+  | 'powerDown'
+  | 'pitchUp'
+  | 'pitchDown'
+  | 'throw'
+  | 'nextTurn'
+  | 'reset'
+  | 'help';
+
+export const INPUT_ACTION_LABELS: Record<InputAction, string> = {
+  angleLeft: 'Aim left',
+  angleRight: 'Aim right',
+  powerUp: 'More power',
+  powerDown: 'Less power',
+  pitchUp: 'Pitch up',
+  pitchDown: 'Pitch down',
+  throw: 'Throw',
+  nextTurn: 'Next turn',
+  reset: 'Reset match',
+  help: 'Show / hide controls',
+};
+
+// Gamepad buttons by standard-mapping index; sticks are axes
+export type GamepadAction = 'throw' | 'nextTurn' | 'reset' | 'help';
+
+export interface GamepadBindings {
+  buttons: Record<GamepadAction, number>;
+  aimAxis: number;     // Left/right turns the aim
+  pitchAxis: number;   // Up/down changes pitch
+}
+
+export interface InputBindings {
+  keys: Record<InputAction, string[]>; // KeyboardEvent.key values, letters lowercase
+  gamepad: GamepadBindings;
+}
+
+export const DEFAULT_INPUT_BINDINGS: InputBindings = {
+  keys: {
+    angleLeft: ['ArrowLeft'],
+    angleRight: ['ArrowRight'],
+    powerUp: ['ArrowUp'],
+    powerDown: ['ArrowDown'],
+    pitchUp: ['PageUp'],
+    pitchDown: ['PageDown'],
+    throw: [' '],
+    nextTurn: ['n'],
+    reset: ['r'],
+    help: ['?', 'h'],
+  },
+  gamepad: {
+    buttons: { throw: 0, nextTurn: 1, reset: 8, help: 3 }, // A, B, Back, Y
+    aimAxis: 0,
+    pitchAxis: 3,
+  },
+};
+
+// Step sizes for one key press; Shift multiplies them
+export const KEY_STEPS = { angle: 1, power: 0.01, pitch: 1 };
+export const FAST_STEP_MULTIPLIER = 5;
+
+// Gamepad tuning, per animation frame
+export const STICK_DEADZONE = 0.15;
+export const STICK_ANGLE_RATE = 1.5;
+export const STICK_PITCH_RATE = 0.75;
+export const POWER_METER_PERIOD_MS = 1500; // Empty to full and back
+
+export function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+export function findKeyAction(bindings: InputBindings, key: string): InputAction | null {
+  const normalized = normalizeKey(key);
+  const actions = Object.keys(bindings.keys) as InputAction[];
+  return actions.find((action) => bindings.keys[action].includes(normalized)) ?? null;
+}
+
+// Bind a key to one action, taking it away from any other action
+export function bindKey(bindings: InputBindings, action: InputAction, key: string): InputBindings {
+  const normalized = normalizeKey(key);
+  const keys = { ...bindings.keys };
+  (Object.keys(keys) as InputAction[]).forEach((a) => {
+    keys[a] = keys[a].filter((k) => k !== normalized);
+  });
+  keys[action] = [normalized];
+  return { ...bindings, keys };
+}
+
+export function bindGamepadButton(
+  bindings: InputBindings,
+  action: GamepadAction,
+  button: number
+): InputBindings {
+  return {
+    ...bindings,
+    gamepad: { ...bindings.gamepad, buttons: { ...bindings.gamepad.buttons, [action]: button } },
+  };
+}
+
+const GAMEPAD_BUTTON_NAMES = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start',
+  'Left stick press', 'Right stick press', 'D-pad up', 'D-pad down', 'D-pad left', 'D-pad right',
+  'Home',
+];
+
+export function describeGamepadButton(button: number): string {
+  return GAMEPAD_BUTTON_NAMES[button] ?? `Button ${button}`;
+}
+
+// Standard mapping: axes 0/1 are the left stick, 2/3 the right stick
+export function describeGamepadAxis(axis: number): string {
+  const stick = axis < 2 ? 'Left stick' : axis < 4 ? 'Right stick' : `Axis ${axis}`;
+  return axis < 4 ? `${stick} ${axis % 2 === 0 ? 'left/right' : 'up/down'}` : stick;
+}
+
+export function describeKey(key: string): string {
+  if (key === ' ') return 'Space';
+  if (key.startsWith('Arrow')) return key.slice(5) + ' arrow';
+  return key.length === 1 ? key.toUpperCase() : key;
+}
+
+export type Aim = Pick<GameConfig, 'throwAngle' | 'throwPower' | 'throwPitch'>;
+
+// Move the aim by the given amounts, kept within the slider limits
+export function nudgeAim(
+  aim: Aim,
+  delta: { angle?: number; power?: number; pitch?: number }
+): Aim {
+  return {
+    throwAngle: clamp(aim.throwAngle + (delta.angle ?? 0), -MAX_ANGLE, MAX_ANGLE),
+    // Rounded so repeated steps don't drift off the slider's 0.01 grid
+    throwPower: Math.round(clamp(aim.throwPower + (delta.power ?? 0), MIN_POWER, 1) * 100) / 100,
+    throwPitch: clamp(aim.throwPitch + (delta.pitch ?? 0), 0, MAX_PITCH),
+  };
+}
+
+// Power meter position for a charge held for elapsedMs: sweeps from the
+// lowest power to full and back
+export function getMeterPower(elapsedMs: number): number {
+  const phase = (elapsedMs % POWER_METER_PERIOD_MS) / POWER_METER_PERIOD_MS;
+  const level = phase < 0.5 ? phase * 2 : 2 - phase * 2;
+  return Math.round((MIN_POWER + level * (1 - MIN_POWER)) * 100) / 100;
+}
+
+// Apply the deadzone and rescale what's left to 0..1
+export function readStick(value: number | undefined): number {
+  if (value === undefined || Math.abs(value) < STICK_DEADZONE) return 0;
+  return (Math.sign(value) * (Math.abs(value) - STICK_DEADZONE)) / (1 - STICK_DEADZONE);
+}
@@ -2,6 +2,22 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { useGameStore } from './store'
+import {
+  restoreAutosave,
+  restoreInputBindings,
+  restoreProfiles,
+  startAutosave,
+  startInputBindingsSync,
+  startProfileSync,
+} from './persistence'
+
+restoreProfiles(useGameStore)
+restoreInputBindings(useGameStore)
+restoreAutosave(useGameStore)
+startAutosave(useGameStore)
+startProfileSync(useGameStore)
+startInputBindingsSync(useGameStore)
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
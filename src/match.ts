@@ -0,0 +1,120 @@
+import type { GameConfig, MatchResult, Player } from './types';
+import { getSides } from './players';
+import type { Side } from './players';
+
+// Number of throws that make up one frame (every player throws throwsPerPlayer)
+export function getThrowsPerFrame(config: GameConfig, playerCount: number): number {
+  return Math.max(1, config.throwsPerPlayer) * playerCount;
+}
+
+// Modes played in frames with the board cleared in between (curling calls them ends)
+export function usesFrames(config: GameConfig): boolean {
+  return config.matchMode === 'frames' || config.matchMode === 'curling';
+}
+
+// True once the last throw of a frame has been made (board should be cleared)
+export function isFrameComplete(
+  config: GameConfig,
+  throwsMade: number,
+  playerCount: number
+): boolean {
+  if (!usesFrames(config) || throwsMade === 0) return false;
+  return throwsMade % getThrowsPerFrame(config, playerCount) === 0;
+}
+
+// True once an end is over: a frame in frames mode, otherwise a round in
+// which every player has thrown once
+export function isEndComplete(
+  config: GameConfig,
+  throwsMade: number,
+  playerCount: number
+): boolean {
+  if (usesFrames(config)) return isFrameComplete(config, throwsMade, playerCount);
+  return throwsMade > 0 && throwsMade % playerCount === 0;
+}
+
+// Highest scoring side wins; equal top scores are a tie
+export function decideWinner(sides: Side[], reason: string): MatchResult {
+  const topScore = Math.max(...sides.map((s) => s.score));
+  const winners = sides.filter((s) => s.score === topScore);
+  return {
+    winnerIds: winners.flatMap((s) => s.playerIds),
+    isTie: winners.length > 1,
+    reason,
+  };
+}
+
+// Check the configured end condition after a throw. Returns null while the
+// match is still running.
+export function evaluateMatch(
+  config: GameConfig,
+  players: Player[],
+  throwsMade: number,
+  elapsedMs: number
+): MatchResult | null {
+  const sides = getSides(players);
+  switch (config.matchMode) {
+    case 'targetScore': {
+      const reached = sides.filter((s) => s.score >= config.targetScore);
+      if (reached.length === 0) return null;
+      return decideWinner(reached, `Reached ${config.targetScore} points`);
+    }
+    case 'throwLimit':
+      if (throwsMade < config.throwsPerPlayer * players.length) return null;
+      return decideWinner(sides, `All ${config.throwsPerPlayer} throws made`);
+    case 'frames': {
+      const totalThrows = getThrowsPerFrame(config, players.length) * config.frameCount;
+      if (throwsMade < totalThrows) return null;
+      return decideWinner(sides, `All ${config.frameCount} frames played`);
+    }
+    case 'curling': {
+      const totalThrows = getThrowsPerFrame(config, players.length) * config.frameCount;
+      if (throwsMade < totalThrows) return null;
+      return decideWinner(sides, `All ${config.frameCount} ends played`);
+    }
+    case 'timed':
+      if (elapsedMs < config.timeLimitSec * 1000) return null;
+      return decideWinner(sides, 'Time is up');
+    case 'endless':
+      return null;
+  }
+}
+
+function formatClock(ms: number): string {
+  const totalSec = Math.max(0, Math.ceil(ms / 1000));
+  const min = Math.floor(totalSec / 60);
+  const sec = totalSec % 60;
+  return `${min}:${sec.toString().padStart(2, '0')}`;
+}
+
+// Short human-readable status of the match, e.g. "Frame 2/3 · throw 1/4"
+export function describeMatchProgress(
+  config: GameConfig,
+  throwsMade: number,
+  playerCount: number,
+  elapsedMs: number
+): string | null {
+  switch (config.matchMode) {
+    case 'targetScore':
+      return `First to ${config.targetScore} points`;
+    case 'throwLimit': {
+      const round = Math.min(
+        config.throwsPerPlayer,
+        Math.floor(throwsMade / playerCount) + 1
+      );
+      return `Round ${round}/${config.throwsPerPlayer}`;
+    }
+    case 'frames':
+    case 'curling': {
+      const perFrame = getThrowsPerFrame(config, playerCount);
+      const frame = Math.min(config.frameCount, Math.floor(throwsMade / perFrame) + 1);
+      const throwInFrame = Math.min(perFrame, throwsMade - (frame - 1) * perFrame + 1);
+      const unit = config.matchMode === 'curling' ? 'End' : 'Frame';
+      return `${unit} ${frame}/${config.frameCount} · throw ${throwInFrame}/${perFrame}`;
+    }
+    case 'timed':
+      return `Time left ${formatClock(config.timeLimitSec * 1000 - elapsedMs)}`;
+    case 'endless':
+      return null;
+  }
+}
@@ -0,0 +1,334 @@
+import type { StoreApi } from 'zustand';
+import type {
+  Pin,
+  Player,
+  GameConfig,
+  GamePhase,
+  EventLogEntry,
+  ThrowRuntime,
+  RecordedThrow,
+  MatchResult,
+  PlayerProfile,
+  KnockLink,
+  EndResult,
+} from './types';
+import { DEFAULT_CONFIG, LEGACY_CONFIG_DEFAULTS } from './types';
+import { Mulberry32 } from './utils/random';
+import type { GameStore } from './store';
+import type { InputBindings } from './input';
+import { DEFAULT_INPUT_BINDINGS } from './input';
+
+// Bump when the saved shape changes, and add a migration from the old version
+export const SAVE_SCHEMA_VERSION = 3;
+
+export const AUTOSAVE_KEY = 'wagiri:autosave';
+export const PROFILES_KEY = 'wagiri:profiles';
+export const BINDINGS_KEY = 'wagiri:bindings';
+
+// ThrowRuntime with Set/Map flattened to JSON-friendly arrays
+export interface SerializedRuntime {
+  thrownPinId: string | null;
+  collisionCount: number;
+  knockedIds: string[];
+  collidedWith: string[];
+  impactSpeeds: [string, number][];
+  chain?: KnockLink[];         // Missing in saves from before chain knocks
+  startRings?: [string, number][]; // Missing in saves from before live board scoring
+  steps?: number;              // Missing in saves from before wind
+}
+
+export interface SavedGame {
+  version: number;
+  config: GameConfig;
+  players: Player[];
+  turnOrder: number[];
+  pins: Pin[];
+  currentPlayerId: number;
+  phase: GamePhase;
+  eventLog: EventLogEntry[];
+  runtime: SerializedRuntime;
+  rngState: number;
+  throwHistory: RecordedThrow[];
+  simSteps: number;
+  matchResult?: MatchResult | null;
+  matchClockMs?: number;
+  hammerPlayerId?: number | null;
+  endResults?: EndResult[];
+}
+
+// Store fields that make up a saved game
+const SAVED_KEYS = [
+  'config',
+  'players',
+  'turnOrder',
+  'pins',
+  'currentPlayerId',
+  'phase',
+  'eventLog',
+  'runtime',
+  'rng',
+  'throwHistory',
+  'simSteps',
+  'matchResult',
+  'matchClockMs',
+  'hammerPlayerId',
+  'endResults',
+] as const;
+
+export type GameSnapshot = Pick<GameStore, (typeof SAVED_KEYS)[number]>;
+
+type SaveData = Record<string, unknown> & { version: number };
+
+// Migrations keyed by the version they upgrade from
+const MIGRATIONS: Record<number, (data: SaveData) => SaveData> = {
+  // v1 -> v2: two-player tuple became N players with teams, and the event
+  // log's deltaP1/deltaP2 became per-player deltas
+  1: (data) => {
+    const players = (data.players as Omit<Player, 'teamId'>[]) ?? [];
+    const throwHistory = (data.throwHistory as RecordedThrow[]) ?? [];
+    const eventLog = (
+      (data.eventLog as (EventLogEntry & { deltaP1: number; deltaP2: number })[]) ?? []
+    ).map(({ deltaP1, deltaP2, ...entry }, index) => ({
+      ...entry,
+      playerId: throwHistory[index]?.playerId ?? (index % 2) + 1,
+      deltas: { 1: deltaP1, 2: deltaP2 },
+    }));
+    return {
+      ...data,
+      version: 2,
+      players: players.map((p) => ({ ...p, teamId: null })),
+      turnOrder: players.map((p) => p.id),
+      eventLog,
+    };
+  },
+  // v2 -> v3: the wall-clock start of a timed match became a play clock.
+  // Count the time up to now as played, as the old save would have.
+  2: ({ matchStartedAt, ...data }) => ({
+    ...data,
+    version: 3,
+    matchClockMs: typeof matchStartedAt === 'number' ? Math.max(0, Date.now() - matchStartedAt) : 0,
+  }),
+};
+
+function serializeRuntime(runtime: ThrowRuntime): SerializedRuntime {
+  return {
+    thrownPinId: runtime.thrownPinId,
+    collisionCount: runtime.collisionCount,
+    knockedIds: [...runtime.knockedIds],
+    collidedWith: [...runtime.collidedWith],
+    impactSpeeds: [...runtime.impactSpeeds],
+    chain: runtime.chain,
+    startRings: [...runtime.startRings],
+    steps: runtime.steps,
+  };
+}
+
+function deserializeRuntime(runtime: SerializedRuntime): ThrowRuntime {
+  return {
+    thrownPinId: runtime.thrownPinId,
+    collisionCount: runtime.collisionCount,
+    knockedIds: new Set(runtime.knockedIds),
+    collidedWith: new Set(runtime.collidedWith),
+    impactSpeeds: new Map(runtime.impactSpeeds),
+    chain: runtime.chain ?? [],
+    startRings: new Map(runtime.startRings ?? []),
+    steps: runtime.steps ?? 0,
+  };
+}
+
+export function serializeGame(state: GameSnapshot): SavedGame {
+  return {
+    version: SAVE_SCHEMA_VERSION,
+    config: { ...state.config },
+    players: state.players.map((p) => ({ ...p })),
+    turnOrder: [...state.turnOrder],
+    pins: state.pins.map((p) => ({ ...p })),
+    currentPlayerId: state.currentPlayerId,
+    phase: state.phase,
+    eventLog: [...state.eventLog],
+    runtime: serializeRuntime(state.runtime),
+    rngState: state.rng.getState(),
+    throwHistory: [...state.throwHistory],
+    simSteps: state.simSteps,
+    matchResult: state.matchResult,
+    matchClockMs: state.matchClockMs,
+    hammerPlayerId: state.hammerPlayerId,
+    endResults: [...state.endResults],
+  };
+}
+
+// Upgrade older saves one version at a time
+function migrate(data: SaveData): SaveData {
+  let current = data;
+  while (current.version < SAVE_SCHEMA_VERSION) {
+    const migration = MIGRATIONS[current.version];
+    if (!migration) {
+      throw new Error(`No migration from save version ${current.version}`);
+    }
+    current = migration(current);
+  }
+  return current;
+}
+
+// Restore store fields from saved data. Throws on malformed input.
+export function deserializeGame(raw: unknown): GameSnapshot {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Saved game is not an object');
+  }
+  const versioned = raw as SaveData;
+  if (typeof versioned.version !== 'number') {
+    throw new Error('Saved game has no schema version');
+  }
+  if (versioned.version > SAVE_SCHEMA_VERSION) {
+    throw new Error(`Saved game version ${versioned.version} is newer than supported`);
+  }
+
+  const data = migrate(versioned) as unknown as SavedGame;
+  if (
+    !Array.isArray(data.players) ||
+    !Array.isArray(data.pins) ||
+    !Array.isArray(data.eventLog) ||
+    !data.runtime ||
+    typeof data.rngState !== 'number'
+  ) {
+    throw new Error('Saved game is missing required fields');
+  }
+
+  const rng = new Mulberry32(0);
+  rng.setState(data.rngState);
+
+  return {
+    // Fill config fields added since the save was written
+    config: { ...DEFAULT_CONFIG, ...LEGACY_CONFIG_DEFAULTS, ...data.config },
+    players: data.players,
+    turnOrder: data.turnOrder ?? data.players.map((p) => p.id),
+    pins: data.pins,
+    currentPlayerId: data.currentPlayerId,
+    phase: data.phase,
+    eventLog: data.eventLog,
+    runtime: deserializeRuntime(data.runtime),
+    rng,
+    throwHistory: (data.throwHistory ?? []).map((t) => ({
+      ...t,
+      config: { ...LEGACY_CONFIG_DEFAULTS, ...t.config },
+    })),
+    simSteps: data.simSteps ?? 0,
+    matchResult: data.matchResult ?? null,
+    matchClockMs: data.matchClockMs ?? 0,
+    hammerPlayerId: data.hammerPlayerId ?? null,
+    endResults: data.endResults ?? [],
+  };
+}
+
+function describeError(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+// Restore the autosaved game, if any. Returns true if a game was restored.
+export function restoreAutosave(store: StoreApi<GameStore>): boolean {
+  const json = localStorage.getItem(AUTOSAVE_KEY);
+  if (!json) return false;
+
+  try {
+    store.getState().loadGame(deserializeGame(JSON.parse(json)));
+    return true;
+  } catch (err) {
+    store
+      .getState()
+      .setStorageError(`Discarded an unreadable autosave: ${describeError(err)}`);
+    localStorage.removeItem(AUTOSAVE_KEY);
+    return false;
+  }
+}
+
+// Save to localStorage whenever the game settles. Mid-throw states are
+// skipped so a refresh never resumes half-way through a simulation.
+export function startAutosave(store: StoreApi<GameStore>): () => void {
+  return store.subscribe((state, prev) => {
+    if (state.phase === 'simulating' || state.phase === 'resolving') return;
+    if (SAVED_KEYS.every((key) => state[key] === prev[key])) return;
+    try {
+      localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(serializeGame(state)));
+    } catch (err) {
+      store.getState().setStorageError(`Autosave failed: ${describeError(err)}`);
+    }
+  });
+}
+
+// Load saved player profiles into the store
+export function restoreProfiles(store: StoreApi<GameStore>): void {
+  const json = localStorage.getItem(PROFILES_KEY);
+  if (!json) return;
+
+  try {
+    const profiles = JSON.parse(json) as PlayerProfile[];
+    if (!Array.isArray(profiles)) throw new Error('Profiles are not a list');
+    store.getState().setProfiles(profiles.filter((p) => p && typeof p.id === 'string'));
+  } catch (err) {
+    store
+      .getState()
+      .setStorageError(`Discarded unreadable player profiles: ${describeError(err)}`);
+    localStorage.removeItem(PROFILES_KEY);
+  }
+}
+
+// Keep localStorage in sync with the store's profiles
+export function startProfileSync(store: StoreApi<GameStore>): () => void {
+  return store.subscribe((state, prev) => {
+    if (state.profiles === prev.profiles) return;
+    try {
+      localStorage.setItem(PROFILES_KEY, JSON.stringify(state.profiles));
+    } catch (err) {
+      store.getState().setStorageError(`Saving player profiles failed: ${describeError(err)}`);
+    }
+  });
+}
+
+// Saved bindings over the defaults, so actions added later still get a key
+function mergeInputBindings(saved: Partial<InputBindings>): InputBindings {
+  const keys = { ...DEFAULT_INPUT_BINDINGS.keys };
+  (Object.keys(keys) as (keyof typeof keys)[]).forEach((action) => {
+    const bound = saved.keys?.[action];
+    if (Array.isArray(bound) && bound.every((k) => typeof k === 'string')) keys[action] = bound;
+  });
+
+  const gamepad = { ...DEFAULT_INPUT_BINDINGS.gamepad, ...saved.gamepad };
+  const buttons = { ...DEFAULT_INPUT_BINDINGS.gamepad.buttons, ...saved.gamepad?.buttons };
+  if (
+    !Number.isInteger(gamepad.aimAxis) ||
+    !Number.isInteger(gamepad.pitchAxis) ||
+    !Object.values(buttons).every(Number.isInteger)
+  ) {
+    throw new Error('Gamepad bindings must be button and axis numbers');
+  }
+  return { keys, gamepad: { ...gamepad, buttons } };
+}
+
+// Load saved keyboard and gamepad bindings into the store
+export function restoreInputBindings(store: StoreApi<GameStore>): void {
+  const json = localStorage.getItem(BINDINGS_KEY);
+  if (!json) return;
+
+  try {
+    const saved = JSON.parse(json) as Partial<InputBindings>;
+    if (!saved || typeof saved !== 'object') throw new Error('Bindings are not an object');
+    store.getState().setInputBindings(mergeInputBindings(saved));
+  } catch (err) {
+    store
+      .getState()
+      .setStorageError(`Discarded unreadable input bindings: ${describeError(err)}`);
+    localStorage.removeItem(BINDINGS_KEY);
+  }
+}
+
+// Keep localStorage in sync with the store's bindings
+export function startInputBindingsSync(store: StoreApi<GameStore>): () => void {
+  return store.subscribe((state, prev) => {
+    if (state.inputBindings === prev.inputBindings) return;
+    try {
+      localStorage.setItem(BINDINGS_KEY, JSON.stringify(state.inputBindings));
+    } catch (err) {
+      store.getState().setStorageError(`Saving input bindings failed: ${describeError(err)}`);
+    }
+  });
+}
@@ -1,7 +1,13 @@
-import type { Pin, GameConfig, Ring } from './types';
+import type { Pin, GameConfig, Obstacle, Point, Ring } from './types';
+import { isInsidePolygon } from './utils/geometry';
+import { getZoneExtent, isInZone } from './zones';
 
 const MAX_SPEED = 20; // units per frame
 const RESTITUTION = 0.5; // Collision elasticity
+export const MAX_SPIN = 0.3; // rad per frame at full throw spin
+const SPIN_CURVE = 0.05; // Path turn per frame, per rad/frame of spin
+const SPIN_TRANSFER = 0.02; // Spin picked up from glancing hits
+const TIP_KICK = 3; // Tilt speed per unit of impact speed, scaled by 1/pinHeight
 
 // Convert angle to radians (0° = up, positive = right)
 function degToRad(degrees: number): number {
@@ -63,6 +69,22 @@ export function checkCollision(
   pinRadius: number,
   pinHeight: number = 30,
   zThreshold: number = 25
+): boolean {
+  if (!areAtCollisionHeight(pin1, pin2, pinHeight, zThreshold)) {
+    return false;
+  }
+
+  // Standard 2D distance check for horizontal collision
+  const dist = distance(pin1.x, pin1.y, pin2.x, pin2.y);
+  return dist < 2 * pinRadius;
+}
+
+// Whether two pins are at heights where they can touch at all
+export function areAtCollisionHeight(
+  pin1: Pin,
+  pin2: Pin,
+  pinHeight: number,
+  zThreshold: number
 ): boolean {
   // Flying pin can only collide with standing pins if it's low enough
   // Check if moving pin's z is within the standing pin's height range
@@ -80,10 +102,162 @@ export function checkCollision(
   if (pin1.state === 'standing' && pin2.z > pinHeight) {
     return false;
   }
+  return true;
+}
+
+// Uniform grid broad-phase. Returns index pairs [i, j] (i < j) of pins
+// whose centers may be within reach of each other: every closer pair is
+// included, plus some that are farther apart. Pairs come in the same order
+// as a brute-force double loop, so results don't depend on the grid.
+export function findCandidatePairs(pins: Pin[], reach: number): [number, number][] {
+  const cellSize = Math.max(reach, 1);
+  // Numeric cell keys; unique while a board spans fewer than 65536 cells.
+  // Pins go in by index, so each cell lists them in ascending order.
+  const cellKey = (cx: number, cy: number) => cx * 65536 + cy;
+  const cells = new Map<number, number[]>();
+  const cellX = new Int32Array(pins.length);
+  const cellY = new Int32Array(pins.length);
+  pins.forEach((pin, i) => {
+    const cx = Math.floor(pin.x / cellSize);
+    const cy = Math.floor(pin.y / cellSize);
+    cellX[i] = cx;
+    cellY[i] = cy;
+    const key = cellKey(cx, cy);
+    const cell = cells.get(key);
+    if (cell) cell.push(i);
+    else cells.set(key, [i]);
+  });
+
+  const pairs: [number, number][] = [];
+  const neighbors: number[] = [];
+  for (let i = 0; i < pins.length; i++) {
+    neighbors.length = 0;
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const cell = cells.get(cellKey(cellX[i] + dx, cellY[i] + dy));
+        if (!cell) continue;
+        for (let k = cell.length - 1; k >= 0 && cell[k] > i; k--) neighbors.push(cell[k]);
+      }
+    }
+    // Only this pin's few neighbors need sorting to keep the order
+    neighbors.sort((a, b) => a - b);
+    for (const j of neighbors) pairs.push([i, j]);
+  }
+  return pairs;
+}
 
-  // Standard 2D distance check for horizontal collision
-  const dist = distance(pin1.x, pin1.y, pin2.x, pin2.y);
-  return dist < 2 * pinRadius;
+// Every index pair (i < j), for comparison with the grid
+export function findAllPairs(count: number): [number, number][] {
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      pairs.push([i, j]);
+    }
+  }
+  return pairs;
+}
+
+// Swept (continuous) contact check over one step of the pins' current
+// velocities. Returns the fraction of the step at which they first touch
+// (0 if already overlapping), or null if they don't touch this step.
+export function getContactTime(pin1: Pin, pin2: Pin, pinRadius: number): number | null {
+  const px = pin2.x - pin1.x;
+  const py = pin2.y - pin1.y;
+  const minDist = 2 * pinRadius;
+  const c = px * px + py * py - minDist * minDist;
+  if (c < 0) return 0;
+
+  // Solve |p + d t| = minDist for the relative displacement d
+  const dx = pin2.vx - pin1.vx;
+  const dy = pin2.vy - pin1.vy;
+  const a = dx * dx + dy * dy;
+  const b = 2 * (px * dx + py * dy);
+  if (a === 0 || b >= 0) return null; // Not approaching
+
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return null;
+  const t = (-b - Math.sqrt(discriminant)) / (2 * a);
+  return t >= 0 && t <= 1 ? t : null;
+}
+
+export interface PairImpulse {
+  ax: number;
+  ay: number;
+  az: number;
+  bx: number;
+  by: number;
+  bz: number;
+  aSpin: number;
+  bSpin: number;
+}
+
+// Symmetric impulse between two touching pins, as velocity changes for each.
+// Heavier pins change less. Returns null if the pins are separating.
+export function getPairImpulse(
+  a: Pin,
+  b: Pin,
+  restitution: number,
+  pinRadius: number
+): PairImpulse | null {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  if (dist === 0) return null;
+
+  const nx = dx / dist;
+  const ny = dy / dist;
+
+  // Closing speed along the normal
+  const dvn = (a.vx - b.vx) * nx + (a.vy - b.vy) * ny;
+  if (dvn <= 0) return null;
+
+  const invA = 1 / (a.mass ?? 1);
+  const invB = 1 / (b.mass ?? 1);
+  const impulse = ((1 + restitution) * dvn) / (invA + invB);
+
+  // Vertical momentum is shared the same way as the legacy response
+  const vzShare = (b.vz - a.vz) * 0.3;
+  const spinChange = getSpinTransfer(a, b, nx, ny, pinRadius);
+
+  return {
+    ax: -impulse * invA * nx,
+    ay: -impulse * invA * ny,
+    az: vzShare,
+    aSpin: spinChange * invA,
+    bx: impulse * invB * nx,
+    by: impulse * invB * ny,
+    bz: -vzShare,
+    bSpin: spinChange * invB,
+  };
+}
+
+// Position changes that push two overlapping pins apart, split by mass.
+// A small slop is left so resting contacts don't jitter.
+export function getSeparation(
+  a: Pin,
+  b: Pin,
+  pinRadius: number
+): { ax: number; ay: number; bx: number; by: number } | null {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  const overlap = 2 * pinRadius - dist - 0.01;
+  if (overlap <= 0) return null;
+
+  // Coincident pins get pushed apart along an arbitrary fixed axis
+  const nx = dist > 0 ? dx / dist : 1;
+  const ny = dist > 0 ? dy / dist : 0;
+  const invA = 1 / (a.mass ?? 1);
+  const invB = 1 / (b.mass ?? 1);
+  const shareA = invA / (invA + invB);
+  const shareB = invB / (invA + invB);
+
+  return {
+    ax: -overlap * shareA * nx,
+    ay: -overlap * shareA * ny,
+    bx: overlap * shareB * nx,
+    by: overlap * shareB * ny,
+  };
 }
 
 // Apply elastic collision response between two pins (3D aware)
@@ -167,18 +341,21 @@ export function findRing(
   y: number,
   config: GameConfig
 ): { ringIndex: number; ring: Ring | null; points: number } {
-  const centerX = config.canvasSize / 2;
-  const centerY = config.canvasSize / 2;
-  const dist = distance(x, y, centerX, centerY);
-
-  // Binary search through rings (sorted by radius)
+  // Where zones overlap the highest priority wins, then the first listed
+  let best = -1;
   for (let i = 0; i < config.rings.length; i++) {
     const ring = config.rings[i];
-    if (dist >= ring.innerRadius && dist < ring.outerRadius) {
-      return { ringIndex: i, ring, points: ring.points };
+    if (!isInZone(x, y, ring, config)) continue;
+    if (best < 0 || (ring.priority ?? 0) > (config.rings[best].priority ?? 0)) {
+      best = i;
     }
   }
 
+  if (best >= 0) {
+    const ring = config.rings[best];
+    return { ringIndex: best, ring, points: ring.points };
+  }
+
   // Outside all rings
   return { ringIndex: -1, ring: null, points: config.outsideScore };
 }
@@ -186,11 +363,33 @@ export function findRing(
 // Get maximum outer radius of all rings
 export function getMaxRingRadius(config: GameConfig): number {
   if (config.rings.length === 0) return 0;
-  return Math.max(...config.rings.map(r => r.outerRadius));
+  return Math.max(...config.rings.map((r) => getZoneExtent(r, config)));
+}
+
+export function closestPointOnSegment(
+  x: number,
+  y: number,
+  a: Point,
+  b: Point
+): Point {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((x - a.x) * dx + (y - a.y) * dy) / lengthSq));
+  return { x: a.x + t * dx, y: a.y + t * dy };
+}
+
+// Polygon boundary in use, if any (configs saved before boards had none)
+function getBoundaryPolygon(config: GameConfig): Point[] | null {
+  const boundary = config.boundary ?? null;
+  return boundary && boundary.length >= 3 ? boundary : null;
 }
 
 // Check if pin is out of bounds
 export function isOutOfBounds(pin: Pin, config: GameConfig): boolean {
+  const polygon = getBoundaryPolygon(config);
+  if (polygon) return !isInsidePolygon(pin.x, pin.y, polygon);
+
   const centerX = config.canvasSize / 2;
   const centerY = config.canvasSize / 2;
   const maxRadius = getMaxRingRadius(config) + 50;
@@ -203,6 +402,9 @@ export function applyBoundaryReflection(
   pin: Pin,
   config: GameConfig
 ): { x: number; y: number; vx: number; vy: number } {
+  const polygon = getBoundaryPolygon(config);
+  if (polygon) return reflectOffPolygon(pin, polygon);
+
   const centerX = config.canvasSize / 2;
   const centerY = config.canvasSize / 2;
   const maxRadius = getMaxRingRadius(config) + 50;
@@ -231,6 +433,145 @@ export function applyBoundaryReflection(
   return { x: newX, y: newY, vx: newVx, vy: newVy };
 }
 
+// Put a pin that left a polygon back on its nearest edge and bounce it
+// inward, losing half its speed like the circular wall
+function reflectOffPolygon(
+  pin: Pin,
+  polygon: Point[]
+): { x: number; y: number; vx: number; vy: number } {
+  let nearest = polygon[0];
+  let nearestDist = Infinity;
+  polygon.forEach((a, i) => {
+    const point = closestPointOnSegment(pin.x, pin.y, a, polygon[(i + 1) % polygon.length]);
+    const dist = distance(pin.x, pin.y, point.x, point.y);
+    if (dist < nearestDist) {
+      nearest = point;
+      nearestDist = dist;
+    }
+  });
+
+  // Inward normal: from the pin back to the edge
+  const nx = nearestDist > 0 ? (nearest.x - pin.x) / nearestDist : 0;
+  const ny = nearestDist > 0 ? (nearest.y - pin.y) / nearestDist : 0;
+  const dot = pin.vx * nx + pin.vy * ny;
+  if (dot >= 0) {
+    return { x: nearest.x, y: nearest.y, vx: pin.vx, vy: pin.vy };
+  }
+  return {
+    x: nearest.x,
+    y: nearest.y,
+    vx: (pin.vx - 2 * dot * nx) * 0.5,
+    vy: (pin.vy - 2 * dot * ny) * 0.5,
+  };
+}
+
+// Push a pin out of an obstacle it overlaps and bounce it off. Returns null
+// if the pin isn't touching the obstacle.
+export function resolveObstacleContact(
+  pin: Pin,
+  obstacle: Obstacle,
+  pinRadius: number
+): { x: number; y: number; vx: number; vy: number } | null {
+  let contact: Point;
+  let reach: number;
+  let bounce = RESTITUTION;
+  if (obstacle.type === 'wall') {
+    contact = closestPointOnSegment(
+      pin.x,
+      pin.y,
+      { x: obstacle.x1, y: obstacle.y1 },
+      { x: obstacle.x2, y: obstacle.y2 }
+    );
+    reach = pinRadius + obstacle.thickness / 2;
+  } else {
+    contact = { x: obstacle.x, y: obstacle.y };
+    reach = pinRadius + obstacle.radius;
+    if (obstacle.type === 'bumper') bounce = obstacle.bounce;
+  }
+
+  const dx = pin.x - contact.x;
+  const dy = pin.y - contact.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  if (dist >= reach) return null;
+
+  // Outward normal (a pin exactly on the contact point goes back the way it came)
+  const pinSpeed = speed(pin.vx, pin.vy);
+  const nx = dist > 0 ? dx / dist : pinSpeed > 0 ? -pin.vx / pinSpeed : 1;
+  const ny = dist > 0 ? dy / dist : pinSpeed > 0 ? -pin.vy / pinSpeed : 0;
+  const x = contact.x + nx * reach;
+  const y = contact.y + ny * reach;
+
+  const vn = pin.vx * nx + pin.vy * ny;
+  if (vn >= 0) return { x, y, vx: pin.vx, vy: pin.vy };
+  return {
+    x,
+    y,
+    vx: pin.vx - (1 + bounce) * vn * nx,
+    vy: pin.vy - (1 + bounce) * vn * ny,
+  };
+}
+
+// Spin turns a pin's path (positive = clockwise on screen, curving right of
+// the direction of travel) and slows down faster on the ground
+export function applySpin(
+  pin: Pin,
+  grounded: boolean
+): { vx: number; vy: number; angle: number; spin: number } {
+  const spin = pin.spin ?? 0;
+  const turn = spin * SPIN_CURVE * (grounded ? 1 : 0.5);
+  const cos = Math.cos(turn);
+  const sin = Math.sin(turn);
+  const decayed = spin * (grounded ? 0.98 : 0.995);
+  return {
+    vx: pin.vx * cos - pin.vy * sin,
+    vy: pin.vx * sin + pin.vy * cos,
+    angle: (pin.angle ?? 0) + spin,
+    spin: Math.abs(decayed) < 0.001 ? 0 : decayed,
+  };
+}
+
+// Spin change from the sideways part of a hit along normal (nx, ny)
+export function getSpinTransfer(a: Pin, b: Pin, nx: number, ny: number, pinRadius: number): number {
+  const tangential = (a.vx - b.vx) * -ny + (a.vy - b.vy) * nx;
+  return (tangential * SPIN_TRANSFER) / pinRadius;
+}
+
+// Lean at which a pin's center of mass passes its base edge
+export function getTipAngle(pinRadius: number, pinHeight: number): number {
+  return Math.atan2(2 * pinRadius, pinHeight);
+}
+
+// Tilt speed a standing pin gets from an impact; taller pins tip more easily
+export function getTipKick(impactSpeed: number, pinHeight: number): number {
+  return (impactSpeed * TIP_KICK) / pinHeight;
+}
+
+// One frame of tip-over physics. Below the tip angle gravity rights the pin,
+// past it gravity pulls it down; spinning pins are steadier.
+export function updateTilt(
+  pin: Pin,
+  config: GameConfig
+): { tilt: number; tiltVelocity: number; toppled: boolean } {
+  let tilt = pin.tilt ?? 0;
+  let tiltVelocity = pin.tiltVelocity ?? 0;
+  if (tilt === 0 && tiltVelocity === 0) return { tilt, tiltVelocity, toppled: false };
+
+  const tipAngle = getTipAngle(config.pinRadius, config.pinHeight);
+  const steadiness = 1 + Math.abs(pin.spin ?? 0) / MAX_SPIN;
+  const accel = config.gravity / config.pinHeight;
+  tiltVelocity += tilt < tipAngle ? -accel * steadiness : accel;
+  tiltVelocity *= 0.98;
+  tilt += tiltVelocity;
+
+  if (tilt >= Math.PI / 2) {
+    return { tilt: Math.PI / 2, tiltVelocity: 0, toppled: true };
+  }
+  if (tilt <= 0) {
+    return { tilt: 0, tiltVelocity: 0, toppled: false };
+  }
+  return { tilt, tiltVelocity, toppled: false };
+}
+
 // Calculate stand probability based on config and conditions
 export function calculateStandProbability(
   config: GameConfig,
@@ -239,11 +580,11 @@ export function calculateStandProbability(
 ): number {
   let prob = config.baseStandProb;
 
-  // Ring bonus (center = highest bonus)
+  // Ring bonus (center = highest bonus), unless the zone sets its own
   if (config.ringBonusEnabled && ringIndex >= 0) {
     const ringCount = config.rings.length;
     // Outermost ring = +10%, next = +20%, center = +30%, etc.
-    const bonusPercent = (ringCount - ringIndex) * 0.1;
+    const bonusPercent = config.rings[ringIndex]?.standBonus ?? (ringCount - ringIndex) * 0.1;
     prob += bonusPercent;
   }
 
@@ -261,6 +602,6 @@ export function calculateKnockProbability(
   config: GameConfig,
   impactSpeed: number
 ): number {
-  let prob = config.baseKnockProb + config.impactSpeedFactor * impactSpeed;
+  const prob = config.baseKnockProb + config.impactSpeedFactor * impactSpeed;
   return Math.max(0, Math.min(1, prob));
 }
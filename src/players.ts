@@ -0,0 +1,100 @@
+import type { Player } from './types';
+import { TEAMS } from './types';
+
+// A scoring side: a team, or a player who isn't on a team
+export interface Side {
+  key: string;
+  name: string;
+  color: string;
+  playerIds: number[];
+  score: number;
+}
+
+// Label drawn on a player's pins: their glyph, or initials from the name
+export function getPlayerLabel(player: Player | undefined, fallbackId?: number): string {
+  if (!player) return fallbackId === undefined ? '?' : `P${fallbackId}`;
+  const glyph = player.glyph?.trim();
+  if (glyph) return glyph;
+  const initials = player.name
+    .trim()
+    .split(/\s+/)
+    .map((word) => word[0] ?? '')
+    .join('')
+    .slice(0, 2)
+    .toUpperCase();
+  return initials || `P${player.id}`;
+}
+
+export function findPlayer(players: Player[], id: number): Player | undefined {
+  return players.find((p) => p.id === id);
+}
+
+// Name shown for a player, as on the scoreboard
+export function getPlayerName(players: Player[], id: number): string {
+  return findPlayer(players, id)?.name ?? `P${id}`;
+}
+
+// Players are opponents unless they are the same player or teammates
+export function areOpponents(players: Player[], aId: number, bId: number): boolean {
+  if (aId === bId) return false;
+  const a = findPlayer(players, aId);
+  const b = findPlayer(players, bId);
+  if (!a || !b || a.teamId === null) return true;
+  return a.teamId !== b.teamId;
+}
+
+// Group players into scoring sides. Teammates share a combined score.
+export function getSides(players: Player[]): Side[] {
+  const sides: Side[] = [];
+  players.forEach((player) => {
+    const team = TEAMS.find((t) => t.id === player.teamId);
+    if (!team) {
+      sides.push({
+        key: `player-${player.id}`,
+        name: player.name,
+        color: player.color,
+        playerIds: [player.id],
+        score: player.score,
+      });
+      return;
+    }
+
+    const existing = sides.find((s) => s.key === `team-${team.id}`);
+    if (existing) {
+      existing.playerIds.push(player.id);
+      existing.score += player.score;
+    } else {
+      sides.push({
+        key: `team-${team.id}`,
+        name: team.name,
+        color: team.color,
+        playerIds: [player.id],
+        score: player.score,
+      });
+    }
+  });
+  return sides;
+}
+
+export function hasTeams(players: Player[]): boolean {
+  return players.some((p) => p.teamId !== null);
+}
+
+// Player who throws after the given one in the turn order
+export function getNextPlayerId(turnOrder: number[], currentPlayerId: number): number {
+  const index = turnOrder.indexOf(currentPlayerId);
+  return turnOrder[(index + 1) % turnOrder.length] ?? currentPlayerId;
+}
+
+// Turn order that alternates between sides (A1, B1, A2, B2, ...)
+export function interleaveSides(players: Player[]): number[] {
+  const queues = getSides(players).map((side) => [...side.playerIds]);
+  const order: number[] = [];
+  while (queues.some((q) => q.length > 0)) {
+    queues.forEach((q) => {
+      const next = q.shift();
+      if (next !== undefined) order.push(next);
+    });
+  }
+  return order;
+}
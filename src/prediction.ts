@@ -0,0 +1,74 @@
+import type { GameConfig, Pin, Player, Point } from './types';
+import { SimulationEngine, addPinToBoard, createThrowRuntime, createThrownPin } from './engine';
+
+// Long enough for a full-power throw to come to rest on the default board
+export const PREDICTION_STEPS = 600;
+
+export interface PathPoint extends Point {
+  z: number;
+}
+
+// Where the current aim would send the thrown pin
+export interface ThrowPrediction {
+  path: PathPoint[];             // Thrown pin after every step, from the start
+  landing: Point | null;         // First ground contact after flying (null for ground throws)
+  stop: Point;                   // Where it comes to rest, or where the preview ran out
+  settled: boolean;              // False if it was still moving after PREDICTION_STEPS
+  firstHit: { x: number; y: number; targetId: string } | null;
+}
+
+// Run the real physics for the configured aim on a copy of the board,
+// without knock rolls, so previews never touch the game's RNG. Hit pins
+// only fall in tip-over mode, where falling is physics rather than a roll;
+// the thrown pin's stand/fall roll is not predicted. pinId should be the id
+// the real throw will get, since gusts depend on it.
+export function predictThrow(
+  config: GameConfig,
+  pins: Pin[],
+  players: Player[],
+  playerId: number,
+  pinId: string,
+  maxSteps: number = PREDICTION_STEPS
+): ThrowPrediction {
+  const thrown = createThrownPin(config, playerId, pinId);
+  const board = addPinToBoard(pins, thrown, config.maxPinsOnBoard);
+  const engine = new SimulationEngine(
+    config,
+    board,
+    0,
+    createThrowRuntime(config, board, pinId),
+    players,
+    { skipRolls: true }
+  );
+
+  const path: PathPoint[] = [{ x: thrown.x, y: thrown.y, z: thrown.z }];
+  let landing: Point | null = null;
+  let firstHit: ThrowPrediction['firstHit'] = null;
+  let airborne = thrown.z > 0.1 || thrown.vz > 0;
+  let settled = false;
+
+  for (let i = 0; i < maxSteps; i++) {
+    settled = !engine.step();
+    const pin = engine.getPin(pinId);
+    if (!pin) break;
+    path.push({ x: pin.x, y: pin.y, z: pin.z });
+
+    if (airborne && !landing && pin.z <= 0.1) {
+      landing = { x: pin.x, y: pin.y };
+      airborne = false;
+    }
+
+    if (!firstHit) {
+      const link = engine.getRuntime().chain.find((l) => l.strikerId === pinId);
+      const target = link && engine.getPin(link.targetId);
+      if (target) {
+        firstHit = { x: (pin.x + target.x) / 2, y: (pin.y + target.y) / 2, targetId: target.id };
+      }
+    }
+
+    if (settled) break;
+  }
+
+  const last = path[path.length - 1];
+  return { path, landing, stop: { x: last.x, y: last.y }, settled, firstHit };
+}
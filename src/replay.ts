@@ -0,0 +1,342 @@
+import type {
+  Pin,
+  Player,
+  GameConfig,
+  EventLogEntry,
+  MatchMode,
+  RecordedThrow,
+  WhatIfBranch,
+} from './types';
+import { DEFAULT_CONFIG, DEFAULT_PLAYERS, LEGACY_CONFIG_DEFAULTS } from './types';
+import { isNumber, isObstacle, isPoint, isRing, isSurfacePatch } from './validation';
+import { createGameStore } from './store';
+import type { GameStore } from './store';
+import { MAX_SIMULATION_STEPS } from './engine';
+import { hasRingErrors } from './zones';
+
+// Everything needed to re-simulate a match from scratch
+export interface MatchRecording {
+  config: GameConfig;
+  players: Player[];           // Roster with scores zeroed
+  turnOrder: number[];
+  throws: RecordedThrow[];
+  branches?: WhatIfBranch[];   // What-if alternatives to some of the throws
+}
+
+// Final state compared when verifying a replay
+export interface MatchOutcome {
+  pins: Pin[];
+  players: Player[];
+  eventLog: EventLogEntry[];
+}
+
+export interface ReplayVerification {
+  ok: boolean;
+  mismatches: string[];
+}
+
+// Build a recording from the current game state
+export function createRecording(
+  state: Pick<GameStore, 'config' | 'throwHistory' | 'players' | 'turnOrder'> &
+    Partial<Pick<GameStore, 'branches'>>
+): MatchRecording {
+  const config = state.throwHistory[0]?.config ?? state.config;
+  return {
+    config: { ...config },
+    players: state.players.map((p) => ({ ...p, score: 0 })),
+    turnOrder: [...state.turnOrder],
+    throws: state.throwHistory.map((t) => ({ ...t, config: { ...t.config } })),
+    branches: (state.branches ?? []).map((b) => ({ ...b })),
+  };
+}
+
+export interface ReplayOptions {
+  // Called when the acting player or RNG state differs from the recording
+  onDivergence?: (message: string) => void;
+  // Called with the board after every simulated frame
+  onFrame?: (state: GameStore, throwIndex: number) => void;
+  // Also advance past the final throw, as the live game does once
+  // Next Turn is pressed (this may clear the board at the end of a frame)
+  finishTurn?: boolean;
+}
+
+// Re-run every recorded throw through a fresh store
+export function replayMatch(
+  recording: MatchRecording,
+  { onDivergence, onFrame, finishTurn = false }: ReplayOptions = {}
+): MatchOutcome {
+  const store = createGameStore();
+  store.getState().updateConfig(recording.config);
+  store.setState({ players: recording.players, turnOrder: recording.turnOrder });
+  store.getState().rematch();
+
+  // The match may not have started from a freshly seeded RNG
+  if (recording.throws.length > 0) {
+    store.getState().rng.setState(recording.throws[0].rngState);
+  }
+
+  // Step one frame at a time only when someone is watching the frames
+  const stepsPerCall = onFrame ? 1 : MAX_SIMULATION_STEPS;
+
+  recording.throws.forEach((recorded, index) => {
+    store.getState().nextTurn();
+    const state = store.getState();
+
+    if (state.currentPlayerId !== recorded.playerId) {
+      onDivergence?.(
+        `Throw ${index + 1}: expected P${recorded.playerId} to throw, got P${state.currentPlayerId}`
+      );
+      store.setState({ currentPlayerId: recorded.playerId });
+    }
+    if (state.rng.getState() !== recorded.rngState) {
+      onDivergence?.(`Throw ${index + 1}: RNG state diverged before throw`);
+    }
+
+    state.updateConfig({
+      ...recorded.config,
+      throwAngle: recorded.throwAngle,
+      throwPower: recorded.throwPower,
+      throwPitch: recorded.throwPitch,
+    });
+    if (hasRingErrors(store.getState().config.rings)) {
+      onDivergence?.(`Throw ${index + 1}: ring settings have errors, throw refused`);
+    }
+    store.getState().throwPin();
+    onFrame?.(store.getState(), index);
+    while (store.getState().simulationStep(stepsPerCall)) {
+      onFrame?.(store.getState(), index);
+    }
+    store.getState().resolveThrow();
+    onFrame?.(store.getState(), index);
+  });
+
+  if (finishTurn) {
+    store.getState().nextTurn();
+  }
+
+  const { pins, players, eventLog } = store.getState();
+  return { pins, players, eventLog };
+}
+
+// Replay a recorded match and check that it reproduces the expected
+// final pins, players and event log exactly
+export function verifyReplay(
+  recording: MatchRecording,
+  expected: MatchOutcome,
+  finishTurn = false
+): ReplayVerification {
+  const mismatches: string[] = [];
+  const actual = replayMatch(recording, {
+    onDivergence: (message) => mismatches.push(message),
+    finishTurn,
+  });
+
+  (['pins', 'players', 'eventLog'] as const).forEach((key) => {
+    if (JSON.stringify(actual[key]) !== JSON.stringify(expected[key])) {
+      mismatches.push(`Final ${key} differ from the recorded match`);
+    }
+  });
+
+  return { ok: mismatches.length === 0, mismatches };
+}
+
+// One rendered frame of a replay
+export interface ReplayFrame {
+  pins: Pin[];
+  players: Player[];
+  throwIndex: number;
+}
+
+// Pre-simulated replay, indexable by frame for scrubbing
+export interface ReplayTimeline {
+  recording: MatchRecording;
+  frames: ReplayFrame[];
+  throwStartFrames: number[];
+  throwEventIds: (string | null)[]; // Event log entry produced by each throw
+  eventLog: EventLogEntry[];
+}
+
+export function buildReplayTimeline(recording: MatchRecording): ReplayTimeline {
+  const frames: ReplayFrame[] = [];
+  const throwStartFrames: number[] = [];
+  const throwEventIds: (string | null)[] = [];
+  let eventCount = 0;
+
+  const outcome = replayMatch(recording, {
+    onFrame: (state, throwIndex) => {
+      if (throwStartFrames.length === throwIndex) {
+        throwStartFrames.push(frames.length);
+        throwEventIds.push(null);
+      }
+      if (state.eventLog.length > eventCount) {
+        eventCount = state.eventLog.length;
+        throwEventIds[throwIndex] = state.eventLog[eventCount - 1].id;
+      }
+      frames.push({ pins: state.pins, players: state.players, throwIndex });
+    },
+  });
+
+  return {
+    recording,
+    frames,
+    throwStartFrames,
+    throwEventIds,
+    eventLog: outcome.eventLog,
+  };
+}
+
+// Match file format
+export const MATCH_FILE_FORMAT = 'wagiri-match';
+export const MATCH_FILE_VERSION = 2;
+
+interface MatchFile extends MatchRecording {
+  format: typeof MATCH_FILE_FORMAT;
+  version: number;
+}
+
+export function serializeMatch(recording: MatchRecording): string {
+  const file: MatchFile = {
+    format: MATCH_FILE_FORMAT,
+    version: MATCH_FILE_VERSION,
+    ...recording,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const MATCH_MODES: MatchMode[] = [
+  'endless',
+  'targetScore',
+  'throwLimit',
+  'timed',
+  'frames',
+  'curling',
+];
+const AI_DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+function isPlayer(value: unknown): value is Player {
+  const p = value as Player;
+  return (
+    !!p &&
+    Number.isInteger(p.id) &&
+    typeof p.name === 'string' &&
+    typeof p.color === 'string' &&
+    (p.teamId === null || Number.isInteger(p.teamId)) &&
+    (p.ai === undefined || AI_DIFFICULTIES.includes(p.ai))
+  );
+}
+
+// Fill config fields the file predates (keeping their old behavior where
+// it changed) and check the ones the engine can't run without
+function readConfig(raw: unknown, label: string): GameConfig {
+  if (!raw || typeof raw !== 'object') throw new Error(`${label} is missing its config`);
+  const config: GameConfig = { ...DEFAULT_CONFIG, ...LEGACY_CONFIG_DEFAULTS, ...raw };
+  if (!Array.isArray(config.rings) || config.rings.length === 0 || !config.rings.every(isRing)) {
+    throw new Error(`${label} has malformed rings`);
+  }
+  if (!Array.isArray(config.obstacles) || !config.obstacles.every(isObstacle)) {
+    throw new Error(`${label} has malformed obstacles`);
+  }
+  const ringCount = config.rings.length;
+  if (
+    !Array.isArray(config.surfaces) ||
+    !config.surfaces.every((s) => isSurfacePatch(s, ringCount))
+  ) {
+    throw new Error(`${label} has malformed surfaces`);
+  }
+  const { boundary } = config;
+  const boundaryValid =
+    boundary === null ||
+    (Array.isArray(boundary) && boundary.length >= 3 && boundary.every(isPoint));
+  if (!boundaryValid) throw new Error(`${label} has a malformed boundary`);
+  if (!MATCH_MODES.includes(config.matchMode)) {
+    throw new Error(`${label} has an unknown match mode: ${config.matchMode}`);
+  }
+  const numbers = ['canvasSize', 'pinRadius', 'seed', 'maxPinsOnBoard'] as const;
+  const bad = numbers.find((key) => !isNumber(config[key]));
+  if (bad) throw new Error(`${label} has a malformed ${bad}`);
+  return config;
+}
+
+// Parse and validate a match file. Throws on malformed input.
+export function parseMatchFile(json: string): MatchRecording {
+  let data: Partial<MatchFile>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Match file is not valid JSON');
+  }
+
+  if (!data || data.format !== MATCH_FILE_FORMAT) {
+    throw new Error('Not a match file');
+  }
+  if (!isNumber(data.version) || data.version > MATCH_FILE_VERSION) {
+    throw new Error(`Unsupported match file version: ${data.version}`);
+  }
+  if (!Array.isArray(data.throws)) {
+    throw new Error('Match file is missing its throws');
+  }
+
+  const config = readConfig(data.config, 'Match file');
+
+  // Version 1 files were always two players without teams
+  const players = data.version < 2 ? DEFAULT_PLAYERS.map((p) => ({ ...p })) : data.players;
+  const turnOrder = data.version < 2 ? players?.map((p) => p.id) : data.turnOrder;
+  if (!Array.isArray(players) || players.length === 0 || !players.every(isPlayer)) {
+    throw new Error('Match file players are malformed');
+  }
+  const ids = players.map((p) => p.id);
+  if (new Set(ids).size !== ids.length) {
+    throw new Error('Match file has players with the same id');
+  }
+  const orderValid =
+    Array.isArray(turnOrder) &&
+    turnOrder.length === ids.length &&
+    ids.every((id) => turnOrder.includes(id));
+  if (!orderValid) {
+    throw new Error('Match file turn order must list every player once');
+  }
+
+  const throws = data.throws.map((t, index) => {
+    const label = `Throw ${index + 1} in match file`;
+    const valid =
+      !!t &&
+      ids.includes(t.playerId) &&
+      isNumber(t.throwAngle) &&
+      isNumber(t.throwPower) &&
+      isNumber(t.throwPitch) &&
+      isNumber(t.rngState);
+    if (!valid) {
+      throw new Error(`${label} is malformed`);
+    }
+    return { ...t, config: readConfig(t.config, label) };
+  });
+
+  const throwCount = data.throws.length;
+  const branches = data.branches ?? [];
+  const branchesValid =
+    Array.isArray(branches) &&
+    branches.every(
+      (b) =>
+        !!b &&
+        typeof b.id === 'string' &&
+        typeof b.name === 'string' &&
+        Number.isInteger(b.throwIndex) &&
+        b.throwIndex >= 0 &&
+        b.throwIndex < throwCount &&
+        isNumber(b.rngState) &&
+        isNumber(b.throwAngle) &&
+        isNumber(b.throwPower) &&
+        isNumber(b.throwPitch)
+    );
+  if (!branchesValid) {
+    throw new Error('Match file branches are malformed');
+  }
+
+  return {
+    config,
+    players: players.map((p) => ({ ...p, score: 0 })),
+    turnOrder,
+    throws,
+    branches,
+  };
+}
@@ -0,0 +1,162 @@
+import type { GameConfig, Pin, Player, ScoringPresetId, ScoringRules } from './types';
+import { DEFAULT_SCORING_RULES } from './types';
+import { distance, findRing } from './physics';
+import { areOpponents, getSides } from './players';
+
+export interface ScoringPreset {
+  name: string;
+  description: string;
+  rules: ScoringRules;
+}
+
+export const SCORING_PRESETS: Record<Exclude<ScoringPresetId, 'custom'>, ScoringPreset> = {
+  current: {
+    name: 'Current',
+    description: 'Standing pins score double; knocks earn a bonus and cost the owner',
+    rules: DEFAULT_SCORING_RULES,
+  },
+  traditional: {
+    name: 'Traditional',
+    description: 'Only standing pins score; a knocked pin just loses its value',
+    rules: {
+      preset: 'traditional',
+      landing: { standing: 1, fallen: 0 },
+      knock: { bonusStanding: 0, bonusFallen: 0, loss: 1 },
+      displacement: { standing: 1, fallen: 0 },
+      outsidePoints: 0,
+      penalties: { perCollision: 0, allowLosses: true },
+      endScoring: 'none',
+      endPoints: 0,
+    },
+  },
+  noNegative: {
+    name: 'No negative scoring',
+    description: 'Same bonuses as current, but nobody ever loses points',
+    rules: {
+      ...DEFAULT_SCORING_RULES,
+      preset: 'noNegative',
+      knock: { ...DEFAULT_SCORING_RULES.knock, loss: 0 },
+      penalties: { perCollision: 0, allowLosses: false },
+    },
+  },
+  closestToCenter: {
+    name: 'Closest to center',
+    description: 'Throws score nothing; the pin nearest the center wins each end',
+    rules: {
+      preset: 'closestToCenter',
+      landing: { standing: 0, fallen: 0 },
+      knock: { bonusStanding: 0, bonusFallen: 0, loss: 0 },
+      displacement: { standing: 0, fallen: 0 },
+      outsidePoints: 0,
+      penalties: { perCollision: 0, allowLosses: true },
+      endScoring: 'closestToCenter',
+      endPoints: 1,
+    },
+  },
+};
+
+// Curling matches only score when an end finishes
+const CURLING_THROW_RULES: ScoringRules = {
+  ...SCORING_PRESETS.closestToCenter.rules,
+  endScoring: 'none',
+  endPoints: 0,
+};
+
+// Rules in effect (configs saved before scoring rules existed use the defaults)
+export function getScoringRules(config: GameConfig): ScoringRules {
+  if (config.matchMode === 'curling') return CURLING_THROW_RULES;
+  return config.scoringRules ?? DEFAULT_SCORING_RULES;
+}
+
+// Point value of a ring index (-1 = outside) under the given rules
+export function getRingPoints(config: GameConfig, rules: ScoringRules, ringIndex: number): number {
+  if (ringIndex < 0) return rules.outsidePoints ?? config.outsideScore;
+  return config.rings[ringIndex]?.points ?? 0;
+}
+
+// Pins inside the rings, nearest to the center first
+function getPinsByDistance(config: GameConfig, pins: Pin[]): { pin: Pin; dist: number }[] {
+  const center = config.canvasSize / 2;
+  return pins
+    .filter((pin) => findRing(pin.x, pin.y, config).ringIndex >= 0)
+    .map((pin) => ({ pin, dist: distance(pin.x, pin.y, center, center) }))
+    .sort((a, b) => a.dist - b.dist);
+}
+
+export interface EndAward {
+  playerId: number;
+  points: number;
+  text: string;
+}
+
+// Award for the pin nearest the center when an end finishes. Only pins
+// inside the rings count; returns null if there are none.
+export function scoreEnd(config: GameConfig, pins: Pin[]): EndAward | null {
+  const rules = getScoringRules(config);
+  if (rules.endScoring !== 'closestToCenter') return null;
+
+  const closest = getPinsByDistance(config, pins)[0];
+  if (!closest) return null;
+
+  const { playerId } = closest.pin;
+  return {
+    playerId,
+    points: rules.endPoints,
+    text: `End won by P${playerId} (closest pin, ${closest.dist.toFixed(0)} from center): +${rules.endPoints}`,
+  };
+}
+
+export interface CurlingEndScore {
+  points: Record<number, number>; // Per player id, only counting pins' owners
+  scorerId: number | null;     // Owner of the closest pin, null for a blank end
+  text: string;
+}
+
+// Curling count: the side with the pin closest to the center scores one
+// point per pin closer than the opponents' best. Pins outside the rings
+// don't count; with none inside, the end is blank.
+export function scoreCurlingEnd(
+  config: GameConfig,
+  pins: Pin[],
+  players: Player[],
+  endNumber: number
+): CurlingEndScore {
+  const ranked = getPinsByDistance(config, pins);
+  if (ranked.length === 0) {
+    return { points: {}, scorerId: null, text: `End ${endNumber}: blank end` };
+  }
+
+  const scorerId = ranked[0].pin.playerId;
+  const points: Record<number, number> = {};
+  let count = 0;
+  for (const { pin } of ranked) {
+    if (areOpponents(players, scorerId, pin.playerId)) break;
+    points[pin.playerId] = (points[pin.playerId] ?? 0) + 1;
+    count++;
+  }
+
+  const side = getSides(players).find((s) => s.playerIds.includes(scorerId));
+  return {
+    points,
+    scorerId,
+    text: `End ${endNumber}: ${side?.name ?? `P${scorerId}`} scores ${count}`,
+  };
+}
+
+// Player holding the hammer; null means the last player in the turn order
+export function getCurrentHammer(turnOrder: number[], hammerPlayerId: number | null): number {
+  return hammerPlayerId ?? turnOrder[turnOrder.length - 1];
+}
+
+// Hammer (last throw) for the next end: stays after a blank end, otherwise
+// goes to the last player in the turn order who is an opponent of the scorer
+export function getNextHammer(
+  players: Player[],
+  turnOrder: number[],
+  hammerPlayerId: number,
+  scorerId: number | null
+): number {
+  if (scorerId === null) return hammerPlayerId;
+  const opponents = turnOrder.filter((id) => areOpponents(players, scorerId, id));
+  return opponents[opponents.length - 1] ?? hammerPlayerId;
+}
@@ -1,4 +1,5 @@
-import { create } from 'zustand';
+import { create, createStore } from 'zustand';
+import type { StateCreator } from 'zustand';
 import type {
   Pin,
   Player,
@@ -7,77 +8,202 @@ import type {
   EventLogEntry,
   ThrowRuntime,
   Ring,
+  RecordedThrow,
+  MatchResult,
+  PlayerProfile,
+  EndResult,
+  WhatIfBranch,
 } from './types';
-import { DEFAULT_CONFIG, DEFAULT_PLAYERS } from './types';
+import { DEFAULT_CONFIG, DEFAULT_PLAYERS, MAX_PLAYERS, PLAYER_COLORS } from './types';
 import { Mulberry32 } from './utils/random';
+import type { ReplayTimeline } from './replay';
+import type { GameSnapshot, SavedGame } from './persistence';
+import { deserializeGame, serializeGame } from './persistence';
+import type { ExplorerResult } from './explorer';
+import type { InputBindings } from './input';
+import { DEFAULT_INPUT_BINDINGS } from './input';
+import { evaluateMatch, isEndComplete, isFrameComplete } from './match';
+import { getCurrentHammer, getNextHammer, scoreCurlingEnd, scoreEnd } from './scoring';
+import { findPlayer, getNextPlayerId } from './players';
+import { hasRingErrors, repairRings } from './zones';
 import {
-  calculateThrowVelocity,
-  getThrowStartPosition,
-  checkCollision,
-  applyCollisionResponse,
-  findRing,
-  applyBoundaryReflection,
-  isOutOfBounds,
-  speed,
-  calculateStandProbability,
-  calculateKnockProbability,
-  applyGravity,
-  applyGroundBounce,
-  isGrounded,
-} from './physics';
-
-interface GameStore {
+  SimulationEngine,
+  createInitialRuntime,
+  createThrowRuntime,
+  createThrownPin,
+  addPinToBoard,
+  FIXED_TIMESTEP_MS,
+} from './engine';
+
+export interface GameStore {
   // State
   config: GameConfig;
-  players: [Player, Player];
+  players: Player[];
+  turnOrder: number[]; // Player ids in throwing order
   pins: Pin[];
-  currentPlayerId: 1 | 2;
+  currentPlayerId: number;
   phase: GamePhase;
   eventLog: EventLogEntry[];
   runtime: ThrowRuntime;
   rng: Mulberry32;
+  throwHistory: RecordedThrow[];
+  simSteps: number; // Total fixed steps simulated this match
+  matchResult: MatchResult | null;
+  matchClockMs: number;        // Play time since the first throw, paused while the page is closed
+  hammerPlayerId: number | null; // Curling: throws last this end (null = last in turn order)
+  endResults: EndResult[];     // Curling: finished ends
+  replay: ReplayState | null;
+  history: UndoHistory;
+  branches: WhatIfBranch[];
+  profiles: PlayerProfile[]; // Saved locally, not part of a game
+  explorerResult: ExplorerResult | null; // Strategy sweep for the current board
+  showHeatmap: boolean;
+  inputBindings: InputBindings; // Saved locally, not part of a game
+  showInputHelp: boolean;
+  storageError: string | null; // Last failed local save or load, until dismissed
 
   // Actions
   updateConfig: (partial: Partial<GameConfig>) => void;
   updateRing: (index: number, ring: Partial<Ring>) => void;
   addRing: () => void;
   removeRing: (index: number) => void;
+  repairRings: () => void;
   setThrowParams: (angle: number, power: number) => void;
+  addPlayer: () => void;
+  removePlayer: (id: number) => void;
+  updatePlayer: (id: number, update: Partial<Omit<Player, 'id' | 'score'>>) => void;
+  setTurnOrder: (order: number[]) => void;
+  restoreDefaultPlayers: () => void;
+  saveProfile: (playerId: number) => void;
+  applyProfile: (playerId: number, profileId: string) => void;
+  deleteProfile: (profileId: string) => void;
+  setProfiles: (profiles: PlayerProfile[]) => void;
   throwPin: () => void;
-  simulationStep: () => boolean; // Returns true if still simulating
+  simulationStep: (steps?: number) => boolean; // Returns true if still simulating
+  tickMatchClock: (elapsedMs: number) => void;
   resolveThrow: () => void;
   nextTurn: () => void;
   reset: () => void;
+  rematch: () => void;
+  loadGame: (snapshot: GameSnapshot) => void;
+  undo: () => void;
+  redo: () => void;
+  rewindToEvent: (eventId: string) => void;
+  addBranch: (branch: Omit<WhatIfBranch, 'id' | 'rngState'>) => void;
+  renameBranch: (id: string, name: string) => void;
+  removeBranch: (id: string) => void;
+  startReplay: (timeline: ReplayTimeline) => void;
+  stopReplay: () => void;
+  setReplayFrame: (frame: number) => void;
+  setReplayPlaying: (playing: boolean) => void;
+  setExplorerResult: (result: ExplorerResult | null) => void;
+  setShowHeatmap: (show: boolean) => void;
+  setInputBindings: (bindings: InputBindings) => void;
+  setShowInputHelp: (show: boolean) => void;
+  setStorageError: (message: string | null) => void;
 }
 
-function createInitialRuntime(): ThrowRuntime {
+// Replay viewer state (the live game is left untouched while replaying)
+export interface ReplayState {
+  timeline: ReplayTimeline;
+  frame: number;
+  playing: boolean;
+}
+
+// Per-throw snapshots for undo/redo. past holds the game as it was just
+// before each throw; future holds the states undone since.
+export interface UndoHistory {
+  past: SavedGame[];
+  future: SavedGame[];
+}
+
+const EMPTY_HISTORY: UndoHistory = { past: [], future: [] };
+
+// Undo and redo only jump between settled states
+export function canRewind(state: Pick<GameStore, 'phase' | 'replay'>): boolean {
+  return state.phase !== 'simulating' && state.phase !== 'resolving' && state.replay === null;
+}
+
+export interface ControlState {
+  canAim: boolean;
+  canThrow: boolean;
+  canNextTurn: boolean;
+  throwBlocker: string | null; // Why throwPin would refuse any player's throw
+}
+
+// What the local player may do right now. AI players aim, throw and end their
+// turn on their own, and nothing is playable during a replay. A timed match
+// whose clock ran out doesn't block throws: throwPin ends the match instead.
+export function getControlState(
+  state: Pick<GameStore, 'phase' | 'replay' | 'players' | 'currentPlayerId' | 'config'>
+): ControlState {
+  const currentPlayer = findPlayer(state.players, state.currentPlayerId) ?? state.players[0];
+  const isHumanTurn = !currentPlayer.ai && state.replay === null;
+  const canAim = state.phase === 'idle' && isHumanTurn;
+  const throwBlocker = hasRingErrors(state.config.rings) ? 'the ring settings have errors' : null;
   return {
-    thrownPinId: null,
-    collisionCount: 0,
-    knockedIds: new Set(),
-    collidedWith: new Set(),
-    impactSpeeds: new Map(),
+    canAim,
+    canThrow: canAim && throwBlocker === null,
+    canNextTurn: state.phase === 'turnEnd' && isHumanTurn,
+    throwBlocker,
   };
 }
 
-function generatePinId(): string {
-  return `pin_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+// IDs derive from the seed and throw sequence so replays are byte-identical.
+// Gusts are seeded from the thrown pin's id, so previews use the same one.
+export function generatePinId(seed: number, throwIndex: number): string {
+  return `pin_${seed.toString(36)}_${throwIndex}`;
 }
 
-function generateEventId(): string {
-  return `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+function generateEventId(seed: number, throwIndex: number): string {
+  return `event_${seed.toString(36)}_${throwIndex}`;
 }
 
-export const useGameStore = create<GameStore>((set, get) => ({
+// Fresh match state for the given config and players (scores zeroed)
+function createMatchState(config: GameConfig, players: Player[], turnOrder: number[]) {
+  return {
+    players: players.map((p) => ({ ...p, score: 0 })),
+    turnOrder: [...turnOrder],
+    pins: [],
+    currentPlayerId: turnOrder[0],
+    phase: 'idle' as const,
+    eventLog: [],
+    runtime: createInitialRuntime(),
+    rng: new Mulberry32(config.seed),
+    throwHistory: [],
+    simSteps: 0,
+    matchResult: null,
+    matchClockMs: 0,
+    hammerPlayerId: null,
+    endResults: [],
+    history: EMPTY_HISTORY,
+    branches: [],
+  };
+}
+
+function createProfileId(): string {
+  return `profile_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function createBranchId(): string {
+  return `branch_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`;
+}
+
+const createGameState: StateCreator<GameStore> = (set, get) => ({
   // Initial state
   config: { ...DEFAULT_CONFIG },
-  players: [{ ...DEFAULT_PLAYERS[0] }, { ...DEFAULT_PLAYERS[1] }],
-  pins: [],
-  currentPlayerId: 1,
-  phase: 'idle',
-  eventLog: [],
-  runtime: createInitialRuntime(),
-  rng: new Mulberry32(DEFAULT_CONFIG.seed),
+  ...createMatchState(
+    DEFAULT_CONFIG,
+    DEFAULT_PLAYERS,
+    DEFAULT_PLAYERS.map((p) => p.id)
+  ),
+  replay: null,
+  profiles: [],
+  explorerResult: null,
+  showHeatmap: true,
+  inputBindings: DEFAULT_INPUT_BINDINGS,
+  showInputHelp: false,
+  storageError: null,
 
   // Update config
   updateConfig: (partial) => {
@@ -121,8 +247,30 @@ export const useGameStore = create<GameStore>((set, get) => ({
     set((state) => {
       if (state.config.rings.length <= 1) return state;
       const newRings = state.config.rings.filter((_, i) => i !== index);
+      // Patches on the removed ring go with it; later rings move down one
+      const surfaces = (state.config.surfaces ?? []).flatMap((patch) => {
+        if (patch.region.type !== 'ring' || patch.region.ringIndex < index) return [patch];
+        if (patch.region.ringIndex === index) return [];
+        const ringIndex = patch.region.ringIndex - 1;
+        return [{ ...patch, region: { ...patch.region, ringIndex } }];
+      });
       return {
-        config: { ...state.config, rings: newRings, ringCount: newRings.length },
+        config: { ...state.config, rings: newRings, ringCount: newRings.length, surfaces },
+      };
+    });
+  },
+
+  // Auto-fix the rings; surface patches follow their ring to its new index
+  repairRings: () => {
+    set((state) => {
+      const { rings, order } = repairRings(state.config.rings);
+      const surfaces = (state.config.surfaces ?? []).map((patch) => {
+        if (patch.region.type !== 'ring') return patch;
+        const ringIndex = order.indexOf(patch.region.ringIndex);
+        return { ...patch, region: { ...patch.region, ringIndex } };
+      });
+      return {
+        config: { ...state.config, rings, ringCount: rings.length, surfaces },
       };
     });
   },
@@ -134,172 +282,196 @@ export const useGameStore = create<GameStore>((set, get) => ({
     }));
   },
 
+  // Add a player (roster changes are only allowed before the first throw)
+  addPlayer: () => {
+    set((state) => {
+      if (state.throwHistory.length > 0 || state.players.length >= MAX_PLAYERS) {
+        return state;
+      }
+      const id = Math.max(0, ...state.players.map((p) => p.id)) + 1;
+      const usedColors = state.players.map((p) => p.color);
+      const color =
+        PLAYER_COLORS.find((c) => !usedColors.includes(c)) ??
+        PLAYER_COLORS[id % PLAYER_COLORS.length];
+      const player: Player = { id, name: `Player ${id}`, score: 0, color, teamId: null };
+      return {
+        players: [...state.players, player],
+        turnOrder: [...state.turnOrder, id],
+      };
+    });
+  },
+
+  // Remove a player (at least two must remain)
+  removePlayer: (id) => {
+    set((state) => {
+      if (state.throwHistory.length > 0 || state.players.length <= 2) return state;
+      const turnOrder = state.turnOrder.filter((pid) => pid !== id);
+      return {
+        players: state.players.filter((p) => p.id !== id),
+        turnOrder,
+        currentPlayerId:
+          state.currentPlayerId === id ? turnOrder[0] : state.currentPlayerId,
+      };
+    });
+  },
+
+  // Update a player's details (teams are fixed once the match has started)
+  updatePlayer: (id, update) => {
+    set((state) => {
+      if (state.throwHistory.length > 0 && update.teamId !== undefined) return state;
+      return {
+        players: state.players.map((p) => (p.id === id ? { ...p, ...update } : p)),
+      };
+    });
+  },
+
+  // Set the throwing order (must contain every player exactly once)
+  setTurnOrder: (order) => {
+    set((state) => {
+      const ids = state.players.map((p) => p.id);
+      const isValid =
+        order.length === ids.length && ids.every((id) => order.includes(id));
+      if (!isValid || state.throwHistory.length > 0) return state;
+      return { turnOrder: [...order], currentPlayerId: order[0] };
+    });
+  },
+
+  // Go back to the two default players (only before the first throw)
+  restoreDefaultPlayers: () => {
+    set((state) => {
+      if (state.throwHistory.length > 0) return state;
+      return createMatchState(state.config, DEFAULT_PLAYERS, DEFAULT_PLAYERS.map((p) => p.id));
+    });
+  },
+
+  // Save a player's details as a profile (updates the linked profile if any)
+  saveProfile: (playerId) => {
+    set((state) => {
+      const player = findPlayer(state.players, playerId);
+      if (!player) return state;
+
+      const existing = state.profiles.find((p) => p.id === player.profileId);
+      const profile: PlayerProfile = {
+        id: existing?.id ?? createProfileId(),
+        name: player.name,
+        color: player.color,
+        glyph: player.glyph,
+        handedness: player.handedness,
+        notes: player.notes,
+      };
+      return {
+        profiles: existing
+          ? state.profiles.map((p) => (p.id === profile.id ? profile : p))
+          : [...state.profiles, profile],
+        players: state.players.map((p) =>
+          p.id === playerId ? { ...p, profileId: profile.id } : p
+        ),
+      };
+    });
+  },
+
+  // Load a saved profile into a player slot
+  applyProfile: (playerId, profileId) => {
+    set((state) => {
+      const profile = state.profiles.find((p) => p.id === profileId);
+      if (!profile) return state;
+      return {
+        players: state.players.map((p) =>
+          p.id === playerId
+            ? {
+                ...p,
+                name: profile.name,
+                color: profile.color,
+                glyph: profile.glyph,
+                handedness: profile.handedness,
+                notes: profile.notes,
+                profileId: profile.id,
+              }
+            : p
+        ),
+      };
+    });
+  },
+
+  deleteProfile: (profileId) => {
+    set((state) => ({
+      profiles: state.profiles.filter((p) => p.id !== profileId),
+      players: state.players.map((p) =>
+        p.profileId === profileId ? { ...p, profileId: undefined } : p
+      ),
+    }));
+  },
+
+  setProfiles: (profiles) => {
+    set({ profiles });
+  },
+
   // Throw a pin
   throwPin: () => {
-    const { config, currentPlayerId, pins, phase } = get();
+    const { config, currentPlayerId, pins, phase, rng, throwHistory, players } = get();
     if (phase !== 'idle') return;
+    // Scoring is ambiguous until the rings are fixed
+    if (hasRingErrors(config.rings)) return;
+
+    // The clock may have run out since its last tick
+    if (config.matchMode === 'timed') {
+      const result = evaluateMatch(config, players, throwHistory.length, get().matchClockMs);
+      if (result) {
+        set({ phase: 'matchOver', matchResult: result });
+        return;
+      }
+    }
 
-    const { x, y } = getThrowStartPosition(config.canvasSize);
-    const { vx, vy, vz } = calculateThrowVelocity(
-      config.throwPower,
-      config.throwAngle,
-      config.throwPitch
+    const newPin = createThrownPin(
+      config,
+      currentPlayerId,
+      generatePinId(config.seed, throwHistory.length)
     );
+    const newPins = addPinToBoard(pins, newPin, config.maxPinsOnBoard);
 
-    const newPin: Pin = {
-      id: generatePinId(),
+    const recorded: RecordedThrow = {
       playerId: currentPlayerId,
-      x,
-      y,
-      z: 0,  // Start at ground level
-      vx,
-      vy,
-      vz,    // Initial vertical velocity from pitch angle
-      state: 'standing',
-      isMoving: true,
+      throwAngle: config.throwAngle,
+      throwPower: config.throwPower,
+      throwPitch: config.throwPitch,
+      rngState: rng.getState(),
+      config: { ...config },
     };
 
-    // Remove oldest pins if over limit
-    let newPins = [...pins];
-    while (newPins.length >= config.maxPinsOnBoard) {
-      newPins.shift();
-    }
-    newPins.push(newPin);
-
+    const { history } = get();
     set({
+      history: { past: [...history.past, serializeGame(get())], future: [] },
       pins: newPins,
+      throwHistory: [...throwHistory, recorded],
       phase: 'simulating',
-      runtime: {
-        ...createInitialRuntime(),
-        thrownPinId: newPin.id,
-      },
+      explorerResult: null, // The sweep was for the old board
+      runtime: createThrowRuntime(config, newPins, newPin.id),
     });
   },
 
-  // Single simulation step - simulates ALL moving pins for chain reactions
-  simulationStep: () => {
+  // Advance the simulation by a number of fixed steps
+  simulationStep: (steps = 1) => {
     const state = get();
     if (state.phase !== 'simulating') return false;
 
-    const { config, pins, runtime, rng } = state;
-    const thrownPin = pins.find((p) => p.id === runtime.thrownPinId);
-
-    // Check if any pin is still moving
-    const anyPinMoving = pins.some((p) => p.isMoving);
-    if (!anyPinMoving) {
-      // Transition to resolving
-      set({ phase: 'resolving' });
-      return false;
-    }
-
-    // Clone pins for update
-    const newPins = pins.map((p) => ({ ...p }));
-    let newRuntime = { ...runtime };
-
-    // Process ALL pins that are moving (including chain reactions)
-    for (let i = 0; i < newPins.length; i++) {
-      const pin = newPins[i];
-      if (!pin.isMoving) continue;
-
-      // Apply gravity (affects vz)
-      pin.vz = applyGravity(pin.vz, config.gravity);
-
-      // Apply horizontal friction (only when grounded or low)
-      if (isGrounded(pin.z, pin.vz)) {
-        pin.vx *= config.friction;
-        pin.vy *= config.friction;
-      } else {
-        // Air friction (less friction in air)
-        pin.vx *= 0.995;
-        pin.vy *= 0.995;
-      }
-
-      // Collision detection with other pins
-      for (let j = 0; j < newPins.length; j++) {
-        if (i === j) continue;
-        const otherPin = newPins[j];
-
-        if (checkCollision(pin, otherPin, config.pinRadius, config.pinHeight, config.collisionZThreshold)) {
-          // Calculate impact speed before response
-          const impactSpeed = speed(
-            pin.vx - otherPin.vx,
-            pin.vy - otherPin.vy
-          );
-
-          // Apply collision response (3D)
-          const response = applyCollisionResponse(pin, otherPin);
-          pin.vx = response.mvx;
-          pin.vy = response.mvy;
-          pin.vz = response.mvz;
-          otherPin.vx = response.svx;
-          otherPin.vy = response.svy;
-          otherPin.vz = response.svz;
-
-          // Mark the other pin as moving for chain reaction (billiard effect)
-          if (speed(otherPin.vx, otherPin.vy) > config.stopThreshold) {
-            otherPin.isMoving = true;
-          }
-
-          // Track collision for scoring (only for the thrown pin)
-          if (pin.id === runtime.thrownPinId) {
-            newRuntime.collisionCount++;
-
-            // Only judge knock once per target pin, and only for opponent pins
-            if (!newRuntime.collidedWith.has(otherPin.id)) {
-              newRuntime.collidedWith = new Set(newRuntime.collidedWith).add(otherPin.id);
-
-              // Knock probability check - only knock opponent pins
-              if (otherPin.playerId !== thrownPin?.playerId) {
-                const knockProb = calculateKnockProbability(config, impactSpeed);
-                if (rng.chance(knockProb) && otherPin.state === 'standing') {
-                  // Mark as knocked
-                  otherPin.state = 'fallen';
-                  newRuntime.knockedIds = new Set(newRuntime.knockedIds).add(otherPin.id);
-                  newRuntime.impactSpeeds = new Map(newRuntime.impactSpeeds).set(
-                    otherPin.id,
-                    impactSpeed
-                  );
-                }
-              }
-            }
-          }
-        }
-      }
+    const { config, pins, runtime, rng, players } = state;
+    const engine = new SimulationEngine(config, pins, rng.getState(), runtime, players);
 
-      // Update position (3D)
-      pin.x += pin.vx;
-      pin.y += pin.vy;
-      pin.z += pin.vz;
-
-      // Ground bounce handling
-      const groundResult = applyGroundBounce(pin.z, pin.vz, config.groundRestitution);
-      pin.z = groundResult.z;
-      pin.vz = groundResult.vz;
-
-      // Boundary check
-      if (isOutOfBounds(pin, config)) {
-        const reflected = applyBoundaryReflection(pin, config);
-        pin.x = reflected.x;
-        pin.y = reflected.y;
-        pin.vx = reflected.vx;
-        pin.vy = reflected.vy;
-      }
-
-      // Stop check - pin stops when grounded AND horizontal speed is low
-      const horizontalSpeed = speed(pin.vx, pin.vy);
-      if (isGrounded(pin.z, pin.vz) && horizontalSpeed < config.stopThreshold) {
-        pin.vx = 0;
-        pin.vy = 0;
-        pin.vz = 0;
-        pin.z = 0;
-        pin.isMoving = false;
-      }
+    for (let i = 0; i < steps; i++) {
+      if (!engine.step()) break;
     }
+    rng.setState(engine.getRngState());
 
-    set({ pins: newPins, runtime: newRuntime });
+    // Transition to resolving as soon as every pin has stopped
+    const isStillMoving = !engine.isAtRest();
+    set({
+      pins: engine.getPins(),
+      runtime: engine.getRuntime(),
+      simSteps: state.simSteps + engine.getStepCount(),
+      ...(isStillMoving ? {} : { phase: 'resolving' as const }),
+    });
 
-    // Return true if any pin is still moving
-    return newPins.some((p) => p.isMoving);
+    return isStillMoving;
   },
 
   // Resolve throw - calculate scores
@@ -308,130 +480,277 @@ export const useGameStore = create<GameStore>((set, get) => ({
     if (state.phase !== 'resolving') return;
 
     const { config, pins, runtime, rng, currentPlayerId, players } = state;
-    const thrownPin = pins.find((p) => p.id === runtime.thrownPinId);
+    const engine = new SimulationEngine(config, pins, rng.getState(), runtime, players);
+    const resolution = engine.resolve(currentPlayerId);
+    rng.setState(engine.getRngState());
 
-    if (!thrownPin) {
+    if (!resolution) {
       set({ phase: 'turnEnd' });
       return;
     }
 
-    // Determine standing/fallen for thrown pin
-    const thrownRingInfo = findRing(thrownPin.x, thrownPin.y, config);
-    const standProb = calculateStandProbability(
-      config,
-      thrownRingInfo.ringIndex,
-      runtime.collisionCount
-    );
-
-    const newPins = pins.map((p) => ({ ...p }));
-    const thrownPinRef = newPins.find((p) => p.id === runtime.thrownPinId)!;
-
-    const isStanding = rng.chance(standProb);
-    thrownPinRef.state = isStanding ? 'standing' : 'fallen';
-
-    // Calculate scores
-    let deltaP1 = 0;
-    let deltaP2 = 0;
-    const logTexts: string[] = [];
-
-    // Landing score for thrown pin
-    const landingMultiplier = isStanding ? 2 : 1;
-    const landingScore = landingMultiplier * thrownRingInfo.points;
+    // Every player gets an entry so the log shows the full picture
+    const deltas: Record<number, number> = {};
+    players.forEach((p) => {
+      deltas[p.id] = resolution.deltas[p.id] ?? 0;
+    });
 
-    if (currentPlayerId === 1) {
-      deltaP1 += landingScore;
-    } else {
-      deltaP2 += landingScore;
+    // End-based rules award points once the end's last throw is scored
+    const endAward = isEndComplete(config, state.throwHistory.length, players.length)
+      ? scoreEnd(config, resolution.pins)
+      : null;
+    if (endAward) {
+      deltas[endAward.playerId] = (deltas[endAward.playerId] ?? 0) + endAward.points;
     }
 
-    const ringName =
-      thrownRingInfo.ringIndex >= 0
-        ? `Ring ${thrownRingInfo.ringIndex + 1}`
-        : 'Outside';
-    const stateStr = isStanding ? 'standing' : 'fallen';
-    logTexts.push(
-      `Pin landed ${stateStr} in ${ringName} (${thrownRingInfo.points}pts): +${landingScore}`
-    );
-
-    // Knockdown bonuses and penalties
-    runtime.knockedIds.forEach((knockedId) => {
-      const knockedPin = pins.find((p) => p.id === knockedId);
-      if (!knockedPin) return;
-
-      const knockedRingInfo = findRing(knockedPin.x, knockedPin.y, config);
-
-      // We stored original state before knock - it was standing (we only knock standing pins)
-      const originalWasStanding = true; // We only added to knockedIds if state was 'standing'
-      const lossMultiplier = originalWasStanding ? 2 : 1;
-      const opponentLoss = lossMultiplier * knockedRingInfo.points;
-
-      // Bonus for knocker
-      const bonusMultiplier = isStanding ? 4 : 2;
-      const knockBonus = bonusMultiplier * knockedRingInfo.points;
-
-      if (currentPlayerId === 1) {
-        deltaP1 += knockBonus;
-        deltaP2 -= opponentLoss;
-      } else {
-        deltaP2 += knockBonus;
-        deltaP1 -= opponentLoss;
-      }
-
-      const knockedRingName =
-        knockedRingInfo.ringIndex >= 0
-          ? `Ring ${knockedRingInfo.ringIndex + 1}`
-          : 'Outside';
-      logTexts.push(
-        `Knocked P${knockedPin.playerId} pin in ${knockedRingName}: +${knockBonus} bonus, opponent -${opponentLoss}`
-      );
-    });
+    // Curling: count the end's closest pins and pass the hammer
+    let { hammerPlayerId, endResults } = state;
+    let curlingText: string | null = null;
+    if (
+      config.matchMode === 'curling' &&
+      isFrameComplete(config, state.throwHistory.length, players.length)
+    ) {
+      const hammer = getCurrentHammer(state.turnOrder, hammerPlayerId);
+      const end = scoreCurlingEnd(config, resolution.pins, players, endResults.length + 1);
+      Object.entries(end.points).forEach(([playerId, points]) => {
+        deltas[Number(playerId)] = (deltas[Number(playerId)] ?? 0) + points;
+      });
+      endResults = [...endResults, { hammerPlayerId: hammer, points: end.points }];
+      hammerPlayerId = getNextHammer(players, state.turnOrder, hammer, end.scorerId);
+      curlingText = end.text;
+    }
 
     // Update players
-    const newPlayers: [Player, Player] = [
-      { ...players[0], score: players[0].score + deltaP1 },
-      { ...players[1], score: players[1].score + deltaP2 },
-    ];
+    const newPlayers = players.map((p) => ({ ...p, score: p.score + deltas[p.id] }));
 
     // Create event log entry
     const newEvent: EventLogEntry = {
-      id: generateEventId(),
-      text: logTexts.join(' | '),
-      deltaP1,
-      deltaP2,
-      ts: Date.now(),
+      id: generateEventId(config.seed, state.throwHistory.length - 1),
+      text: [resolution.text, endAward?.text, curlingText].filter(Boolean).join(' | '),
+      playerId: currentPlayerId,
+      deltas,
+      ts: Math.round(state.simSteps * FIXED_TIMESTEP_MS),
     };
 
+    const matchResult = evaluateMatch(
+      config,
+      newPlayers,
+      state.throwHistory.length,
+      state.matchClockMs
+    );
+
     set({
-      pins: newPins,
+      pins: resolution.pins,
       players: newPlayers,
       eventLog: [...state.eventLog, newEvent],
-      phase: 'turnEnd',
+      phase: matchResult ? 'matchOver' : 'turnEnd',
+      matchResult,
+      hammerPlayerId,
+      endResults,
     });
   },
 
+  // Advance the match clock by play time. The clock starts with the first
+  // throw, and a timed match ends as soon as it runs out rather than at the
+  // next throw. A throw in flight finishes first; resolveThrow ends it then.
+  tickMatchClock: (elapsedMs) => {
+    const { config, players, phase, throwHistory, replay, matchClockMs } = get();
+    if (replay || phase === 'matchOver' || throwHistory.length === 0) return;
+
+    const clock = matchClockMs + Math.max(0, elapsedMs);
+    const settled = phase === 'idle' || phase === 'turnEnd';
+    const result =
+      config.matchMode === 'timed' && settled
+        ? evaluateMatch(config, players, throwHistory.length, clock)
+        : null;
+    set(
+      result
+        ? { matchClockMs: clock, phase: 'matchOver', matchResult: result }
+        : { matchClockMs: clock }
+    );
+  },
+
   // Next turn
   nextTurn: () => {
-    const { phase, currentPlayerId } = get();
+    const {
+      phase,
+      currentPlayerId,
+      config,
+      pins,
+      throwHistory,
+      players,
+      turnOrder,
+      hammerPlayerId,
+    } = get();
     if (phase !== 'turnEnd') return;
 
+    // Clear the board once every player has thrown their pins for the frame
+    const frameComplete = isFrameComplete(config, throwHistory.length, players.length);
+
+    // Curling: a new end opens with the player after the hammer, so the
+    // hammer throws last
+    const nextPlayerId =
+      frameComplete && config.matchMode === 'curling'
+        ? getNextPlayerId(turnOrder, getCurrentHammer(turnOrder, hammerPlayerId))
+        : getNextPlayerId(turnOrder, currentPlayerId);
+
     set({
-      currentPlayerId: currentPlayerId === 1 ? 2 : 1,
+      pins: frameComplete ? [] : pins,
+      currentPlayerId: nextPlayerId,
       phase: 'idle',
       runtime: createInitialRuntime(),
     });
   },
 
-  // Reset game
+  // Reset game (keeps the roster, scores go back to zero)
   reset: () => {
-    const { config } = get();
+    const { config, players, turnOrder } = get();
+    set({ ...createMatchState(config, players, turnOrder), explorerResult: null });
+  },
+
+  // Start a new match with the same config and players
+  rematch: () => {
+    get().reset();
+  },
+
+  // Replace the whole game with a restored snapshot
+  loadGame: (snapshot) => {
     set({
-      players: [{ ...DEFAULT_PLAYERS[0] }, { ...DEFAULT_PLAYERS[1] }],
-      pins: [],
-      currentPlayerId: 1,
-      phase: 'idle',
-      eventLog: [],
-      runtime: createInitialRuntime(),
-      rng: new Mulberry32(config.seed),
+      ...snapshot,
+      history: EMPTY_HISTORY,
+      branches: [],
+      replay: null,
+      explorerResult: null,
+    });
+  },
+
+  // Step back to just before the last throw
+  undo: () => {
+    const state = get();
+    const { past, future } = state.history;
+    if (!canRewind(state) || past.length === 0) return;
+    set({
+      ...deserializeGame(past[past.length - 1]),
+      history: { past: past.slice(0, -1), future: [...future, serializeGame(state)] },
+      explorerResult: null,
+    });
+  },
+
+  // Put an undone throw back
+  redo: () => {
+    const state = get();
+    const { past, future } = state.history;
+    if (!canRewind(state) || future.length === 0) return;
+    set({
+      ...deserializeGame(future[future.length - 1]),
+      history: { past: [...past, serializeGame(state)], future: future.slice(0, -1) },
+      explorerResult: null,
     });
   },
-}));
+
+  // Rewind to just before the throw that logged the given event. The
+  // throws in between can be redone one at a time.
+  rewindToEvent: (eventId) => {
+    const state = get();
+    const { past, future } = state.history;
+    const eventIndex = state.eventLog.findIndex((e) => e.id === eventId);
+    if (!canRewind(state) || eventIndex < 0) return;
+
+    // Latest snapshot taken before the event was logged
+    let target = -1;
+    past.forEach((snapshot, i) => {
+      if (snapshot.eventLog.length === eventIndex) target = i;
+    });
+    if (target < 0) return;
+
+    set({
+      ...deserializeGame(past[target]),
+      history: {
+        past: past.slice(0, target),
+        future: [...future, serializeGame(state), ...past.slice(target + 1).reverse()],
+      },
+      explorerResult: null,
+    });
+  },
+
+  // Fork a recorded throw with a different aim
+  addBranch: (branch) => {
+    const { throwHistory, branches } = get();
+    const forked = throwHistory[branch.throwIndex];
+    if (!forked) return;
+    set({
+      branches: [...branches, { ...branch, id: createBranchId(), rngState: forked.rngState }],
+    });
+  },
+
+  renameBranch: (id, name) => {
+    set((state) => ({
+      branches: state.branches.map((b) => (b.id === id ? { ...b, name } : b)),
+    }));
+  },
+
+  removeBranch: (id) => {
+    set((state) => ({ branches: state.branches.filter((b) => b.id !== id) }));
+  },
+
+  // Enter replay mode at the first frame
+  startReplay: (timeline) => {
+    set({ replay: { timeline, frame: 0, playing: false } });
+  },
+
+  stopReplay: () => {
+    set({ replay: null });
+  },
+
+  // Jump to a frame (clamped to the timeline)
+  setReplayFrame: (frame) => {
+    const { replay } = get();
+    if (!replay) return;
+    const lastFrame = Math.max(0, replay.timeline.frames.length - 1);
+    const clamped = Math.max(0, Math.min(lastFrame, Math.round(frame)));
+    set({
+      replay: {
+        ...replay,
+        frame: clamped,
+        playing: replay.playing && clamped < lastFrame,
+      },
+    });
+  },
+
+  setReplayPlaying: (playing) => {
+    const { replay } = get();
+    if (!replay) return;
+    // Restart from the beginning when playing from the last frame
+    const atEnd = replay.frame >= replay.timeline.frames.length - 1;
+    set({
+      replay: { ...replay, playing, frame: playing && atEnd ? 0 : replay.frame },
+    });
+  },
+
+  setExplorerResult: (result) => {
+    set({ explorerResult: result });
+  },
+
+  setShowHeatmap: (show) => {
+    set({ showHeatmap: show });
+  },
+
+  setInputBindings: (bindings) => {
+    set({ inputBindings: bindings });
+  },
+
+  setShowInputHelp: (show) => {
+    set({ showInputHelp: show });
+  },
+
+  setStorageError: (message) => {
+    set({ storageError: message });
+  },
+});
+
+export const useGameStore = create<GameStore>()(createGameState);
+
+// Standalone store instance, e.g. for headless replays
+export function createGameStore() {
+  return createStore<GameStore>()(createGameState);
+}
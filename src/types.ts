@@ -1,7 +1,7 @@
 // Pin state and data
 export interface Pin {
   id: string;
-  playerId: 1 | 2;
+  playerId: number;
   x: number;
   y: number;
   z: number;       // Height (0 = ground level)
@@ -10,21 +10,72 @@ export interface Pin {
   vz: number;      // Vertical velocity (positive = upward)
   state: 'standing' | 'fallen';
   isMoving: boolean;
+  mass?: number;   // Relative mass for pairwise collisions (default 1)
+  angle?: number;  // Heading in radians; a fallen pin lies along it
+  spin?: number;   // Angular velocity around the vertical axis (rad per frame)
+  tilt?: number;   // Lean from upright in radians (tip-over mode)
+  tiltVelocity?: number;
 }
 
-// Ring configuration
+// Scoring zone configuration. Without a shape it's an annulus around the
+// board center between innerRadius and outerRadius.
 export interface Ring {
   innerRadius: number;
   outerRadius: number;
   points: number;
+  shape?: ZoneShape;
+  standBonus?: number;    // Replaces the ring bonus to stand probability
+  priority?: number;      // Higher wins where zones overlap (default 0)
 }
 
+// Zone outlines; angles in degrees, sectors measured clockwise from straight up
+export type ZoneShape =
+  | { type: 'circle'; x: number; y: number; radius: number }
+  | { type: 'ellipse'; x: number; y: number; radiusX: number; radiusY: number; rotation: number }
+  | {
+      type: 'sector';
+      x: number;
+      y: number;
+      innerRadius: number;
+      outerRadius: number;
+      startAngle: number;
+      endAngle: number;
+    }
+  | { type: 'polygon'; points: Point[] };
+
 // Player data
 export interface Player {
-  id: 1 | 2;
+  id: number;
   name: string;
   score: number;
   color: string;
+  teamId: number | null;       // Teammates share a score and can't knock each other
+  glyph?: string;              // Short pin label; defaults to the name's initials
+  handedness?: Handedness;
+  notes?: string;
+  profileId?: string;          // Saved profile this player was loaded from
+  ai?: AiDifficulty;           // Computer-controlled when set
+}
+
+export type Handedness = 'left' | 'right';
+
+export type AiDifficulty = 'easy' | 'medium' | 'hard';
+
+// Reusable player details saved across matches
+export interface PlayerProfile {
+  id: string;
+  name: string;
+  color: string;
+  glyph?: string;
+  handedness?: Handedness;
+  notes?: string;
+}
+
+// Team definition
+export interface Team {
+  id: number;
+  name: string;
+  color: string;
 }
 
 // Game configuration
@@ -34,31 +85,132 @@ export interface GameConfig {
   outsideScore: number;
   pinRadius: number;
   pinHeight: number;           // Height of standing pin (for collision detection)
-  friction: number;
+  friction: number;            // Ground friction outside any surface patch
+  airDrag: number;             // Horizontal speed kept per frame while airborne
+  wind: Wind;
+  surfaces: SurfacePatch[];    // Later patches lie on top of earlier ones
+  boundary: Point[] | null;    // Polygon wall; null = circle 50 beyond the outer ring
+  obstacles: Obstacle[];
   stopThreshold: number;
   baseStandProb: number;
   baseKnockProb: number;
   impactSpeedFactor: number;
   ringBonusEnabled: boolean;
   collisionPenaltyEnabled: boolean;
+  chainKnocksEnabled: boolean; // Pins moved by the throw can knock pins too
+  chainKnockDecay: number;     // Bonus multiplier per extra chain generation (0-1)
+  liveBoardScoring: boolean;   // Re-score earlier pins pushed into another ring
+  scoringRules: ScoringRules;
   maxPinsOnBoard: number;
   seed: number;
   canvasSize: number;
   throwPower: number;
   throwAngle: number;          // Horizontal angle (yaw): -60 to +60 degrees
   throwPitch: number;          // Vertical angle (pitch): 0 to 45 degrees (0 = horizontal, 45 = upward)
+  throwSpin: number;           // -1 to +1, curves the path (positive = to the right)
   gravity: number;             // Gravity acceleration (units per frame^2)
   groundRestitution: number;   // Bounce coefficient when hitting ground (0-1)
   collisionZThreshold: number; // Max z-difference for collision detection
+  collisionModel: CollisionModel;
+  restitution: number;         // Pin-pin bounciness for pairwise collisions (0-1)
+  pinMass: number;             // Mass given to newly thrown pins
+  broadPhase: BroadPhase;
+  standModel: StandModel;
+  matchMode: MatchMode;
+  targetScore: number;         // 'targetScore': first player to reach this wins
+  throwsPerPlayer: number;     // 'throwLimit': per match, 'frames'/'curling': per frame/end
+  frameCount: number;          // 'frames'/'curling': frames/ends per match (board cleared between)
+  timeLimitSec: number;        // 'timed': match length in seconds
+}
+
+// 'legacy' resolves each hit inside the per-pin loop (results depend on pin
+// order); 'pairwise' finds all contacts first and resolves them together
+export type CollisionModel = 'legacy' | 'pairwise';
+
+// How pairwise collisions find nearby pins. Both give the same results;
+// 'none' checks every pair and is kept for benchmarking.
+export type BroadPhase = 'grid' | 'none';
+
+// How pins end up standing or fallen: dice rolls from the stand/knock
+// probabilities, or tipping over from impacts
+export type StandModel = 'probability' | 'tipOver';
+
+// How a match ends ('endless' never ends)
+export type MatchMode = 'endless' | 'targetScore' | 'throwLimit' | 'timed' | 'frames' | 'curling';
+
+// Wind pushing airborne pins
+export interface Wind {
+  speed: number;               // Acceleration per frame (0 = calm)
+  direction: number;           // Degrees it blows toward: 0 = up, 90 = right
+  gustiness: number;           // 0-1, how much strength and direction vary
+}
+
+export type SurfaceKind = 'sand' | 'grass' | 'ice';
+
+// Area a surface patch covers: a whole scoring ring or a circle on the board
+export type SurfaceRegion =
+  | { type: 'ring'; ringIndex: number }
+  | { type: 'circle'; x: number; y: number; radius: number };
+
+// Ground with its own friction
+export interface SurfacePatch {
+  kind: SurfaceKind;
+  friction: number;
+  region: SurfaceRegion;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Static things on the board that pins bounce off
+export type Obstacle =
+  | { type: 'post'; x: number; y: number; radius: number }
+  | { type: 'bumper'; x: number; y: number; radius: number; bounce: number } // bounce > 1 adds speed
+  | { type: 'wall'; x1: number; y1: number; x2: number; y2: number; thickness: number };
+
+// Final result of a match
+export interface MatchResult {
+  winnerIds: number[];         // Players on the winning side(s)
+  isTie: boolean;              // More than one side shares the top score
+  reason: string;
+}
+
+// Result of one curling end
+export interface EndResult {
+  hammerPlayerId: number;      // Threw last in the end
+  points: Record<number, number>; // Points per player id (missing = 0)
 }
 
 // Event log entry
 export interface EventLogEntry {
   id: string;
   text: string;
-  deltaP1: number;
-  deltaP2: number;
-  ts: number;
+  playerId: number;            // Player who threw
+  deltas: Record<number, number>; // Score change per player id
+  ts: number;                  // Simulated match time (ms), not wall-clock
+}
+
+// A single throw as recorded for replays
+export interface RecordedThrow {
+  playerId: number;
+  throwAngle: number;
+  throwPower: number;
+  throwPitch: number;
+  rngState: number;            // Mulberry32 state right before the throw
+  config: GameConfig;          // Config in effect for this throw
+}
+
+// "What-if": a different aim tried in place of a recorded throw
+export interface WhatIfBranch {
+  id: string;
+  name: string;
+  throwIndex: number;          // Recorded throw it replaces
+  rngState: number;            // That throw's RNG state, to notice a rewritten line
+  throwAngle: number;
+  throwPower: number;
+  throwPitch: number;
 }
 
 // Runtime state for current throw
@@ -68,10 +220,66 @@ export interface ThrowRuntime {
   knockedIds: Set<string>;
   collidedWith: Set<string>; // Track pins we've already collided with for knock judgment
   impactSpeeds: Map<string, number>; // Track impact speed per knocked pin
+  chain: KnockLink[];          // Judged hits in the order they happened
+  startRings: Map<string, number>; // Ring index of each earlier pin when the throw began
+  steps: number;               // Fixed steps simulated so far (drives wind gusts)
+}
+
+// One judged hit in a throw's collision chain
+export interface KnockLink {
+  strikerId: string;
+  targetId: string;
+  generation: number;          // 1 = hit by the thrown pin, 2 = by a pin it moved, ...
+  knocked: boolean;
+  impactSpeed: number;
 }
 
 // Game phase
-export type GamePhase = 'idle' | 'simulating' | 'resolving' | 'turnEnd';
+export type GamePhase = 'idle' | 'simulating' | 'resolving' | 'turnEnd' | 'matchOver';
+
+export type ScoringPresetId =
+  | 'current'
+  | 'traditional'
+  | 'noNegative'
+  | 'closestToCenter'
+  | 'custom';
+
+// How throws are scored. Multipliers apply to the points of the ring a pin is in.
+export interface ScoringRules {
+  preset: ScoringPresetId;
+  landing: {
+    standing: number;          // Thrown pin ends up standing
+    fallen: number;
+  };
+  knock: {
+    bonusStanding: number;     // Thrower's bonus when their pin stands
+    bonusFallen: number;
+    loss: number;              // Knocked pin owner's loss
+  };
+  displacement: {
+    standing: number;          // Live board: pushed pins by their state
+    fallen: number;
+  };
+  outsidePoints: number | null; // Overrides config.outsideScore when set
+  penalties: {
+    perCollision: number;      // Points the thrower loses per collision of their pin
+    allowLosses: boolean;      // false = negative score changes are dropped
+  };
+  endScoring: 'none' | 'closestToCenter'; // Extra award when an end finishes
+  endPoints: number;           // Awarded to the closest pin's owner
+}
+
+// The original built-in rules
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  preset: 'current',
+  landing: { standing: 2, fallen: 1 },
+  knock: { bonusStanding: 4, bonusFallen: 2, loss: 2 },
+  displacement: { standing: 2, fallen: 1 },
+  outsidePoints: null,
+  penalties: { perCollision: 0, allowLosses: true },
+  endScoring: 'none',
+  endPoints: 0,
+};
 
 // Default configuration
 export const DEFAULT_CONFIG: GameConfig = {
@@ -85,25 +293,70 @@ export const DEFAULT_CONFIG: GameConfig = {
   pinRadius: 10,
   pinHeight: 30,              // Pin height for collision detection
   friction: 0.98,
+  airDrag: 0.995,
+  wind: { speed: 0, direction: 0, gustiness: 0 },
+  surfaces: [],
+  boundary: null,
+  obstacles: [],
   stopThreshold: 0.5,
   baseStandProb: 0.5,
   baseKnockProb: 0.3,
   impactSpeedFactor: 0.05,
   ringBonusEnabled: true,
   collisionPenaltyEnabled: true,
+  chainKnocksEnabled: false,  // Only the thrown pin's direct hits count
+  chainKnockDecay: 0.5,       // Half the bonus for each generation further away
+  liveBoardScoring: false,
+  scoringRules: DEFAULT_SCORING_RULES,
   maxPinsOnBoard: 20,
   seed: 12345,
   canvasSize: 500,
   throwPower: 0.5,
   throwAngle: 0,
   throwPitch: 15,             // Default 15 degrees upward
+  throwSpin: 0,
   gravity: 0.5,               // Gravity acceleration
   groundRestitution: 0.3,     // 30% bounce on ground
   collisionZThreshold: 25,    // Collide if z difference < 25 units
+  collisionModel: 'pairwise',
+  restitution: 0.5,
+  pinMass: 1,
+  broadPhase: 'grid',
+  standModel: 'probability',
+  matchMode: 'endless',
+  targetScore: 30,
+  throwsPerPlayer: 5,
+  frameCount: 3,
+  timeLimitSec: 300,
+};
+
+// Values for fields that configs saved before them didn't have, where the
+// old behavior differs from today's default
+export const LEGACY_CONFIG_DEFAULTS: Partial<GameConfig> = {
+  collisionModel: 'legacy',
 };
 
 // Default players
-export const DEFAULT_PLAYERS: [Player, Player] = [
-  { id: 1, name: 'Player 1', score: 0, color: '#3b82f6' }, // Blue
-  { id: 2, name: 'Player 2', score: 0, color: '#ef4444' }, // Red
+export const DEFAULT_PLAYERS: Player[] = [
+  { id: 1, name: 'Player 1', score: 0, color: '#3b82f6', teamId: null }, // Blue
+  { id: 2, name: 'Player 2', score: 0, color: '#ef4444', teamId: null }, // Red
+];
+
+export const MAX_PLAYERS = 6;
+
+// Colors handed out to added players, in order
+export const PLAYER_COLORS = [
+  '#3b82f6', // Blue
+  '#ef4444', // Red
+  '#22c55e', // Green
+  '#eab308', // Yellow
+  '#a855f7', // Purple
+  '#f97316', // Orange
+];
+
+// Teams players can be assigned to
+export const TEAMS: Team[] = [
+  { id: 1, name: 'Team A', color: '#38bdf8' },
+  { id: 2, name: 'Team B', color: '#fb7185' },
+  { id: 3, name: 'Team C', color: '#a3e635' },
 ];
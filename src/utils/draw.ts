@@ -0,0 +1,56 @@
+import type { Ring } from '../types';
+
+// Add a zone's outline to the current path. Annuli only trace their outer
+// edge when outlineOnly is set, so borders don't double up.
+export function traceZone(
+  ctx: CanvasRenderingContext2D,
+  ring: Ring,
+  centerX: number,
+  centerY: number,
+  outlineOnly = false
+) {
+  const shape = ring.shape;
+  if (!shape) {
+    ctx.arc(centerX, centerY, ring.outerRadius, 0, Math.PI * 2);
+    if (!outlineOnly) ctx.arc(centerX, centerY, ring.innerRadius, 0, Math.PI * 2, true);
+    return;
+  }
+
+  switch (shape.type) {
+    case 'circle':
+      ctx.arc(shape.x, shape.y, shape.radius, 0, Math.PI * 2);
+      break;
+    case 'ellipse':
+      ctx.ellipse(
+        shape.x,
+        shape.y,
+        Math.max(0, shape.radiusX),
+        Math.max(0, shape.radiusY),
+        (shape.rotation * Math.PI) / 180,
+        0,
+        Math.PI * 2
+      );
+      break;
+    case 'sector': {
+      // Sector bearings start straight up; canvas angles start to the right
+      const sweep = (((shape.endAngle - shape.startAngle) % 360) + 360) % 360 || 360;
+      const start = ((shape.startAngle - 90) * Math.PI) / 180;
+      const end = start + (sweep * Math.PI) / 180;
+      ctx.moveTo(
+        shape.x + Math.cos(start) * shape.innerRadius,
+        shape.y + Math.sin(start) * shape.innerRadius
+      );
+      ctx.arc(shape.x, shape.y, shape.outerRadius, start, end);
+      ctx.arc(shape.x, shape.y, shape.innerRadius, end, start, true);
+      ctx.closePath();
+      break;
+    }
+    case 'polygon':
+      shape.points.forEach((point, i) => {
+        if (i === 0) ctx.moveTo(point.x, point.y);
+        else ctx.lineTo(point.x, point.y);
+      });
+      ctx.closePath();
+      break;
+  }
+}
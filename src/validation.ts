@@ -0,0 +1,89 @@
+import type { Obstacle, Point, Ring, SurfaceKind, SurfacePatch, ZoneShape } from './types';
+
+// Shape checks for boards and configs read from files
+
+export function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+export function isPoint(value: unknown): value is Point {
+  const p = value as Point;
+  return !!p && isNumber(p.x) && isNumber(p.y);
+}
+
+function isZoneShape(value: unknown): boolean {
+  const z = value as ZoneShape;
+  if (!z) return false;
+  switch (z.type) {
+    case 'circle':
+      return isNumber(z.x) && isNumber(z.y) && isNumber(z.radius);
+    case 'ellipse':
+      return (
+        isNumber(z.x) && isNumber(z.y) && isNumber(z.radiusX) && isNumber(z.radiusY) && isNumber(z.rotation)
+      );
+    case 'sector':
+      return (
+        isNumber(z.x) &&
+        isNumber(z.y) &&
+        isNumber(z.innerRadius) &&
+        isNumber(z.outerRadius) &&
+        isNumber(z.startAngle) &&
+        isNumber(z.endAngle)
+      );
+    case 'polygon':
+      return Array.isArray(z.points) && z.points.length >= 3 && z.points.every(isPoint);
+    default:
+      return false;
+  }
+}
+
+export function isRing(value: unknown): value is Ring {
+  const r = value as Ring;
+  return (
+    !!r &&
+    isNumber(r.innerRadius) &&
+    isNumber(r.outerRadius) &&
+    isNumber(r.points) &&
+    (r.shape === undefined || isZoneShape(r.shape)) &&
+    (r.standBonus === undefined || isNumber(r.standBonus)) &&
+    (r.priority === undefined || isNumber(r.priority))
+  );
+}
+
+export function isObstacle(value: unknown): value is Obstacle {
+  const o = value as Obstacle;
+  if (!o) return false;
+  switch (o.type) {
+    case 'post':
+      return isNumber(o.x) && isNumber(o.y) && isNumber(o.radius) && o.radius > 0;
+    case 'bumper':
+      return isNumber(o.x) && isNumber(o.y) && isNumber(o.radius) && o.radius > 0 && isNumber(o.bounce);
+    case 'wall':
+      return (
+        isNumber(o.x1) && isNumber(o.y1) && isNumber(o.x2) && isNumber(o.y2) && isNumber(o.thickness)
+      );
+    default:
+      return false;
+  }
+}
+
+const SURFACE_KINDS: SurfaceKind[] = ['sand', 'grass', 'ice'];
+
+// A ring region has to point at one of the board's ringCount rings
+export function isSurfacePatch(value: unknown, ringCount: number): value is SurfacePatch {
+  const s = value as SurfacePatch;
+  if (!s || !SURFACE_KINDS.includes(s.kind) || !isNumber(s.friction) || !s.region) return false;
+  const region = s.region;
+  switch (region.type) {
+    case 'ring':
+      return (
+        Number.isInteger(region.ringIndex) && region.ringIndex >= 0 && region.ringIndex < ringCount
+      );
+    case 'circle':
+      return (
+        isNumber(region.x) && isNumber(region.y) && isNumber(region.radius) && region.radius > 0
+      );
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,16 @@
+import { runExplorerSweep } from '../explorer';
+import type { ExplorerRequest, ExplorerResult } from '../explorer';
+
+// Messages posted back to the page
+export type ExplorerWorkerMessage =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'result'; result: ExplorerResult };
+
+// Runs a strategy sweep off the main thread
+self.onmessage = (event: MessageEvent<ExplorerRequest>) => {
+  const post = (message: ExplorerWorkerMessage) => self.postMessage(message);
+  const result = runExplorerSweep(event.data, (completed, total) =>
+    post({ type: 'progress', completed, total })
+  );
+  post({ type: 'result', result });
+};
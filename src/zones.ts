@@ -0,0 +1,324 @@
+import type { GameConfig, Point, Ring, ZoneShape } from './types';
+import { isInsidePolygon } from './utils/geometry';
+
+export type ZoneType = ZoneShape['type'] | 'annulus';
+
+export const ZONE_TYPE_NAMES: Record<ZoneType, string> = {
+  annulus: 'Ring',
+  circle: 'Circle',
+  ellipse: 'Ellipse',
+  sector: 'Sector',
+  polygon: 'Polygon',
+};
+
+export function getZoneType(ring: Ring): ZoneType {
+  return ring.shape?.type ?? 'annulus';
+}
+
+const DEG = Math.PI / 180;
+
+// Compass-style bearing of (dx, dy) in degrees: 0 = up, 90 = right
+function getBearing(dx: number, dy: number): number {
+  return (Math.atan2(dx, -dy) / DEG + 360) % 360;
+}
+
+function isInSector(bearing: number, startAngle: number, endAngle: number): boolean {
+  const sweep = (((endAngle - startAngle) % 360) + 360) % 360;
+  if (sweep === 0) return true; // Same start and end = full circle
+  return (((bearing - startAngle) % 360) + 360) % 360 <= sweep;
+}
+
+export function isInZone(x: number, y: number, ring: Ring, config: GameConfig): boolean {
+  const shape = ring.shape;
+  if (!shape) {
+    const center = config.canvasSize / 2;
+    const dist = Math.hypot(x - center, y - center);
+    return dist >= ring.innerRadius && dist < ring.outerRadius;
+  }
+
+  switch (shape.type) {
+    case 'circle':
+      return Math.hypot(x - shape.x, y - shape.y) < shape.radius;
+    case 'ellipse': {
+      if (shape.radiusX <= 0 || shape.radiusY <= 0) return false;
+      const cos = Math.cos(-shape.rotation * DEG);
+      const sin = Math.sin(-shape.rotation * DEG);
+      const dx = x - shape.x;
+      const dy = y - shape.y;
+      const lx = (dx * cos - dy * sin) / shape.radiusX;
+      const ly = (dx * sin + dy * cos) / shape.radiusY;
+      return lx * lx + ly * ly < 1;
+    }
+    case 'sector': {
+      const dx = x - shape.x;
+      const dy = y - shape.y;
+      const dist = Math.hypot(dx, dy);
+      if (dist < shape.innerRadius || dist >= shape.outerRadius) return false;
+      return isInSector(getBearing(dx, dy), shape.startAngle, shape.endAngle);
+    }
+    case 'polygon':
+      return shape.points.length >= 3 && isInsidePolygon(x, y, shape.points);
+  }
+}
+
+// Farthest the zone reaches from the board center (sizes the circular wall)
+export function getZoneExtent(ring: Ring, config: GameConfig): number {
+  const shape = ring.shape;
+  if (!shape) return ring.outerRadius;
+
+  const center = config.canvasSize / 2;
+  const fromCenter = (x: number, y: number) => Math.hypot(x - center, y - center);
+  switch (shape.type) {
+    case 'circle':
+      return fromCenter(shape.x, shape.y) + shape.radius;
+    case 'ellipse':
+      return fromCenter(shape.x, shape.y) + Math.max(shape.radiusX, shape.radiusY);
+    case 'sector':
+      return fromCenter(shape.x, shape.y) + shape.outerRadius;
+    case 'polygon':
+      return Math.max(0, ...shape.points.map((p) => fromCenter(p.x, p.y)));
+  }
+}
+
+// Rough radius of the zone, used to draw big zones underneath small ones
+export function getZoneSize(ring: Ring): number {
+  const shape = ring.shape;
+  if (!shape) return ring.outerRadius;
+
+  switch (shape.type) {
+    case 'circle':
+      return shape.radius;
+    case 'ellipse':
+      return Math.max(shape.radiusX, shape.radiusY);
+    case 'sector':
+      return shape.outerRadius;
+    case 'polygon': {
+      const mid = getPolygonCenter(shape.points);
+      return Math.max(0, ...shape.points.map((p) => Math.hypot(p.x - mid.x, p.y - mid.y)));
+    }
+  }
+}
+
+function getPolygonCenter(points: Point[]): Point {
+  if (points.length === 0) return { x: 0, y: 0 };
+  return {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  };
+}
+
+// Where to write the zone's point value
+export function getZoneLabelPoint(ring: Ring, config: GameConfig): Point {
+  const shape = ring.shape;
+  if (!shape) {
+    const center = config.canvasSize / 2;
+    const labelRadius = (ring.innerRadius + ring.outerRadius) / 2;
+    return { x: center + labelRadius * 0.7, y: center };
+  }
+
+  switch (shape.type) {
+    case 'circle':
+    case 'ellipse':
+      return { x: shape.x, y: shape.y };
+    case 'sector': {
+      const sweep = (((shape.endAngle - shape.startAngle) % 360) + 360) % 360 || 360;
+      const bearing = (shape.startAngle + sweep / 2) * DEG;
+      const r = (shape.innerRadius + shape.outerRadius) / 2;
+      return { x: shape.x + Math.sin(bearing) * r, y: shape.y - Math.cos(bearing) * r };
+    }
+    case 'polygon':
+      return getPolygonCenter(shape.points);
+  }
+}
+
+// A shape of the given type roughly covering the ring's current area, so
+// switching types in the editor starts from something sensible
+export function createZoneShape(type: ZoneType, ring: Ring, config: GameConfig): ZoneShape | undefined {
+  const center = config.canvasSize / 2;
+  const radius = ring.outerRadius;
+  switch (type) {
+    case 'annulus':
+      return undefined;
+    case 'circle':
+      return { type, x: center, y: center, radius };
+    case 'ellipse':
+      return { type, x: center, y: center, radiusX: radius, radiusY: radius * 0.6, rotation: 0 };
+    case 'sector':
+      return {
+        type,
+        x: center,
+        y: center,
+        innerRadius: ring.innerRadius,
+        outerRadius: radius,
+        startAngle: -45,
+        endAngle: 45,
+      };
+    case 'polygon':
+      return {
+        type,
+        points: [
+          { x: center, y: center - radius },
+          { x: center + radius, y: center },
+          { x: center, y: center + radius },
+          { x: center - radius, y: center },
+        ],
+      };
+  }
+}
+
+// Parse "x,y x,y ..." into polygon points; null if any pair is malformed
+export function parsePolygonPoints(text: string): Point[] | null {
+  const pairs = text.trim().split(/\s+/).filter(Boolean);
+  const points = pairs.map((pair) => pair.split(',').map(Number));
+  if (points.some((p) => p.length !== 2 || p.some((n) => !Number.isFinite(n)))) return null;
+  return points.map(([x, y]) => ({ x, y }));
+}
+
+export function formatPolygonPoints(points: Point[]): string {
+  return points.map((p) => `${Math.round(p.x)},${Math.round(p.y)}`).join(' ');
+}
+
+// Ring validation
+
+export type RingIssueKind = 'inverted' | 'overlap' | 'gap' | 'shape' | 'points';
+
+export interface RingIssue {
+  ringIndex: number;
+  kind: RingIssueKind;
+  severity: 'error' | 'warning';   // Errors block throwing
+  message: string;
+}
+
+function getShapeProblem(shape: ZoneShape): string | null {
+  switch (shape.type) {
+    case 'circle':
+      return shape.radius > 0 ? null : 'Radius must be above 0';
+    case 'ellipse':
+      return shape.radiusX > 0 && shape.radiusY > 0 ? null : 'Radii must be above 0';
+    case 'sector':
+      if (shape.innerRadius < 0) return 'Inner radius is negative';
+      return shape.innerRadius < shape.outerRadius ? null : 'Inner radius must be below outer';
+    case 'polygon':
+      return shape.points.length >= 3 ? null : 'Needs at least 3 corners';
+  }
+}
+
+// Problems with the scoring zones. Plain rings (annuli) must not be
+// inverted, overlap or leave gaps between them, and their points should
+// rise towards the center. Shaped zones are only checked for a usable
+// outline, since they overlap on purpose and use priorities instead.
+export function validateRings(rings: Ring[]): RingIssue[] {
+  const issues: RingIssue[] = [];
+  const annuli: number[] = [];
+
+  rings.forEach((ring, i) => {
+    if (ring.shape) {
+      const problem = getShapeProblem(ring.shape);
+      if (problem) issues.push({ ringIndex: i, kind: 'shape', severity: 'error', message: problem });
+      return;
+    }
+    if (ring.innerRadius < 0 || ring.innerRadius >= ring.outerRadius) {
+      issues.push({
+        ringIndex: i,
+        kind: 'inverted',
+        severity: 'error',
+        message: `Inner radius ${ring.innerRadius} must be 0 or more and below outer ${ring.outerRadius}`,
+      });
+      return;
+    }
+    annuli.push(i);
+  });
+
+  // Walk the valid rings from the center outwards. A ring nested inside a
+  // bigger one (with a different priority) leaves no gap, so gaps are
+  // measured from the furthest any earlier ring reaches.
+  const sorted = [...annuli].sort(
+    (a, b) => rings[a].innerRadius - rings[b].innerRadius || a - b
+  );
+  let reach = sorted[0];
+  for (let k = 1; k < sorted.length; k++) {
+    const prev = rings[sorted[k - 1]];
+    const idx = sorted[k];
+    const ring = rings[idx];
+    const overlapped = sorted
+      .slice(0, k)
+      .find(
+        (j) =>
+          ring.innerRadius < rings[j].outerRadius &&
+          (ring.priority ?? 0) === (rings[j].priority ?? 0)
+      );
+    if (overlapped !== undefined) {
+      issues.push({
+        ringIndex: idx,
+        kind: 'overlap',
+        severity: 'error',
+        message: `Overlaps ring #${overlapped + 1} (${ring.innerRadius} < ${rings[overlapped].outerRadius})`,
+      });
+    } else if (ring.innerRadius > rings[reach].outerRadius) {
+      issues.push({
+        ringIndex: idx,
+        kind: 'gap',
+        severity: 'error',
+        message: `Gap from ${rings[reach].outerRadius} to ${ring.innerRadius} after ring #${reach + 1}`,
+      });
+    }
+    if (ring.points > prev.points) {
+      issues.push({
+        ringIndex: idx,
+        kind: 'points',
+        severity: 'warning',
+        message: `Worth more than ring #${sorted[k - 1] + 1} nearer the center`,
+      });
+    }
+    if (ring.outerRadius > rings[reach].outerRadius) reach = idx;
+  }
+
+  return issues;
+}
+
+export function hasRingErrors(rings: Ring[]): boolean {
+  return validateRings(rings).some((issue) => issue.severity === 'error');
+}
+
+// Fix what can be fixed automatically: inverted radii are swapped, plain
+// rings are sorted from the center outwards (ahead of shaped zones, which
+// keep their order) and moved out, keeping their width, to start where the
+// last ring with the same priority ends, or where the rings so far reach
+// if that leaves a gap. Rings nested in one with another priority stay
+// put. order[newIndex] is the ring's old index.
+export function repairRings(rings: Ring[]): { rings: Ring[]; order: number[] } {
+  const fixed = rings.map((ring) => {
+    if (ring.shape) return { ...ring };
+    const inner = Math.max(0, Math.min(ring.innerRadius, ring.outerRadius));
+    const outer = Math.max(ring.innerRadius, ring.outerRadius);
+    return { ...ring, innerRadius: inner, outerRadius: outer > inner ? outer : inner + 1 };
+  });
+
+  const annuli = fixed
+    .map((_, i) => i)
+    .filter((i) => !fixed[i].shape)
+    .sort((a, b) => fixed[a].innerRadius - fixed[b].innerRadius || a - b);
+  const shaped = fixed.map((_, i) => i).filter((i) => fixed[i].shape);
+
+  const edges = new Map<number, number>(); // Priority -> where its rings end
+  let reach: number | null = null;
+  for (const i of annuli) {
+    const ring = fixed[i];
+    const priority = ring.priority ?? 0;
+    const edge = edges.get(priority);
+    const start =
+      edge !== undefined && ring.innerRadius < edge
+        ? edge
+        : reach !== null && ring.innerRadius > reach
+          ? reach
+          : ring.innerRadius;
+    const width = ring.outerRadius - ring.innerRadius;
+    ring.innerRadius = start;
+    ring.outerRadius = start + width;
+    edges.set(priority, ring.outerRadius);
+    reach = Math.max(reach ?? ring.outerRadius, ring.outerRadius);
+  }
+
+  const order = [...annuli, ...shaped];
+  return { rings: order.map((i) => fixed[i]), order };
+}